@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { idleFor, isStalled, pagesPerSecond, type CrawlProgress as Progress } from "@/lib/progress";
+
+function statusColor(status: string): string {
+  if (status.startsWith("2")) return "bg-green-500/15 text-green-400 border-green-500/20";
+  if (status.startsWith("3")) return "bg-blue-500/15 text-blue-400 border-blue-500/20";
+  if (status.startsWith("4")) return "bg-yellow-500/15 text-yellow-400 border-yellow-500/20";
+  if (status === "unknown") return "bg-muted text-muted-foreground border-muted";
+  return "bg-red-500/15 text-red-400 border-red-500/20";
+}
+
+// 75000 -> "1:15"
+function formatDuration(millis: number): string {
+  const seconds = Math.floor(Math.max(0, millis) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Live counters for the running crawl, fed by the JSONL stream
+const CrawlProgress = ({ progress }: { progress: Progress }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick so elapsed time and the stall warning move while no pages arrive
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { received, expected, withSchema, statuses, recent } = progress;
+  const percent = expected ? Math.min(100, Math.round((received / expected) * 100)) : 0;
+  const stalled = isStalled(progress, now);
+
+  return (
+    <div className="border-b bg-card/50 px-4 py-3 text-xs">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className="font-medium text-foreground">
+          {received} / {expected} pages
+        </span>
+        <span className="text-muted-foreground">{pagesPerSecond(progress, now).toFixed(1)} pages/s</span>
+        <span className="text-muted-foreground">{formatDuration(now - progress.startedAt)} elapsed</span>
+        <span className="text-muted-foreground">
+          {withSchema} with schema{received > 0 && ` (${Math.round((withSchema / received) * 100)}%)`}
+        </span>
+        {stalled ? (
+          <span className="text-yellow-400">No new pages for {formatDuration(idleFor(progress, now))}; the crawl may be stuck</span>
+        ) : (
+          received > 0 && <span className="text-muted-foreground">last page {Math.floor(idleFor(progress, now) / 1000)}s ago</span>
+        )}
+      </div>
+      <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className={`h-full transition-all ${stalled ? "bg-yellow-400" : "bg-[#3bde77]"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {Object.keys(statuses).length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {Object.entries(statuses)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([status, count]) => (
+              <Badge key={status} variant="outline" className={statusColor(status)}>
+                {status === "error" ? "Error" : status === "unknown" ? "No status" : status} × {count}
+              </Badge>
+            ))}
+        </div>
+      )}
+      {recent.length > 0 && (
+        <ul className="mt-2 space-y-0.5 font-mono text-[11px] text-muted-foreground">
+          {recent.map((page) => (
+            <li key={page.seq} className="flex items-center gap-2 min-w-0">
+              <span className={page.status.startsWith("2") ? "text-green-400" : "text-yellow-400"}>{page.status}</span>
+              <span className="truncate">{page.url}</span>
+              {page.schema && <span className="shrink-0 text-[#3bde77]">schema</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CrawlProgress;
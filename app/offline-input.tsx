@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { VscFileCode } from "react-icons/vsc";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_OFFLINE_URL, parseOfflineFiles, parseOfflineInput, type OfflinePage } from "@/lib/offline";
+
+// Paste or upload markup and validate it locally, without logging in or crawling
+const OfflineInput = ({ onLoad }: { onLoad: (pages: OfflinePage[]) => void }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [pageUrl, setPageUrl] = useState(DEFAULT_OFFLINE_URL);
+  const [files, setFiles] = useState<File[]>([]);
+  const { toast } = useToast();
+
+  const onValidate = async () => {
+    let base = DEFAULT_OFFLINE_URL;
+    try {
+      base = new URL(pageUrl.trim()).href;
+    } catch {
+      return toast({ title: "Invalid page URL", description: "Use an absolute URL such as https://example.com/page." });
+    }
+    try {
+      const pages = [...parseOfflineInput(text, base), ...(await parseOfflineFiles(files, base))];
+      if (!pages.length) {
+        return toast({ title: "Nothing to validate", description: "Paste markup or choose at least one file." });
+      }
+      onLoad(pages);
+      setOpen(false);
+      toast({ title: "Validated locally", description: `${pages.length} page${pages.length === 1 ? "" : "s"} loaded.` });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Could not read files", description: "Check that the files are text and try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        title="Paste or upload markup"
+        onClick={() => setOpen(true)}
+        className="h-8 w-8 p-0 rounded-lg text-muted-foreground hover:text-foreground"
+      >
+        <VscFileCode className="w-4 h-4" />
+      </Button>
+      {open && (
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogContent className="p-4 rounded-md shadow-md max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Validate markup</DialogTitle>
+              <DialogDescription>
+                Paste JSON-LD or HTML, or upload .html, .json or .jsonl files, including a saved crawl. Everything runs in the browser.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex flex-col gap-3">
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.currentTarget.value)}
+                placeholder={'{\n  "@context": "https://schema.org",\n  "@type": "Organization",\n  ...\n}'}
+                spellCheck={false}
+                className="min-h-[220px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs placeholder:text-muted-foreground/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#3bde77]/40"
+              />
+              <div className="flex items-center gap-2">
+                <Label htmlFor="offline-files" className="flex-1">Files:</Label>
+                <Input
+                  id="offline-files"
+                  type="file"
+                  multiple
+                  accept=".html,.htm,.json,.jsonl,.txt"
+                  className="w-2/3"
+                  onChange={(e) => setFiles(Array.from(e.currentTarget.files || []))}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="offline-url" className="flex-1">Page URL:</Label>
+                <Input id="offline-url" className="w-2/3" value={pageUrl} onChange={(e) => setPageUrl(e.currentTarget.value)} />
+              </div>
+              <p className="text-xs text-muted-foreground">Relative URLs and breadcrumb checks resolve against the page URL; HTML with a canonical link uses that instead.</p>
+              <Button type="button" onClick={onValidate} className="self-end bg-[#3bde77] hover:bg-[#2bc866] text-black">
+                Validate
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+};
+
+export default OfflineInput;
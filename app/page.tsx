@@ -13,7 +13,7 @@ export default function Home() {
           Validate JSON-LD structured data and Schema.org markup on any website.
         </p>
         <ul className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs">
-          <li>21 Schema.org types</li>
+          <li>Schema.org vocabulary checks</li>
           <li>@graph flattening</li>
           <li>Raw JSON view</li>
         </ul>
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { Dispatch, SyntheticEvent, useEffect, useRef, useState } from "react";
-import { VscLoading, VscSearch, VscSettings } from "react-icons/vsc";
+import { VscCloudUpload, VscLoading, VscSearch, VscSettings } from "react-icons/vsc";
 import ms from "ms";
 import {
   Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
@@ -15,35 +15,242 @@ import {
 } from "@/components/ui/select";
 import AuthDropdown, { useAuthMenu } from "./auth";
 import AppSwitcher from "./app-switcher";
-import { savePages } from "@/lib/storage";
+import OfflineInput from "./offline-input";
+import CrawlProgress from "./crawl-progress";
+import {
+  deletePreset, getDomain, getDomainPreset, getPresets, getRuns, savePages, savePresets, saveRun, setDomainPreset, timeAgo, type CrawlRun,
+} from "@/lib/storage";
+import {
+  DEFAULT_SETTINGS, describeSettings, exportPresets, importPresets, parsePatterns, scopeParams,
+  type CrawlPreset, type CrawlSettings, type CrawlStatus, type RunMode,
+} from "@/lib/crawl";
+import { parseSitemap, parseUrlList } from "@/lib/url-list";
+import { recordPage, startProgress, type CrawlProgress as Progress } from "@/lib/progress";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.spider.cloud";
 
+const MAX_SITEMAPS = 50;
+
+const MAX_RECENT_RUNS = 10;
+
+const PLACEHOLDERS: Record<RunMode, string> = {
+  crawl: "Enter website URL to crawl...",
+  sitemap: "Enter sitemap URL or website...",
+  list: "Paste URLs separated by commas or spaces...",
+};
+
+// Page URLs from sitemaps and sitemap indexes, fetched through the API so cross-origin sitemaps load
+async function fetchSitemapUrls(sitemaps: string[], authorization: string, signal: AbortSignal): Promise<string[]> {
+  const urls: string[] = [];
+  const queue = [...sitemaps];
+  const seen = new Set<string>();
+  while (queue.length && seen.size < MAX_SITEMAPS) {
+    const sitemap = queue.shift()!;
+    if (seen.has(sitemap)) continue;
+    seen.add(sitemap);
+    const res = await fetch(API_URL + "/scrape", {
+      method: "POST",
+      body: JSON.stringify({ url: sitemap, return_format: "raw", request: "http" }),
+      headers: { "content-type": "application/json", authorization },
+      signal,
+    });
+    if (!res.ok) continue;
+    const pages = await res.json();
+    for (const page of Array.isArray(pages) ? pages : [pages]) {
+      if (typeof page?.content !== "string") continue;
+      const entries = parseSitemap(page.content);
+      urls.push(...entries.urls);
+      queue.push(...entries.sitemaps);
+    }
+  }
+  return Array.from(new Set(urls));
+}
+
+// A bare site URL means its sitemap.xml
+function toSitemapUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return /\.xml(\.gz)?$/i.test(parsed.pathname) ? parsed.href : `${parsed.origin}/sitemap.xml`;
+  } catch {
+    return url;
+  }
+}
+
 const SearchBar = ({
   setDataValues,
   onSaveComplete,
+  onStatusChange,
+  onTargetsChange,
+  onRunChange,
 }: {
   setDataValues: Dispatch<any>;
   onSaveComplete?: () => void;
+  onStatusChange?: (status: CrawlStatus) => void;
+  // The exact URLs a sitemap or list run asked for; null for discovery crawls
+  onTargetsChange?: (urls: string[] | null) => void;
+  // The settings of the current run, for the report header
+  onRunChange?: (run: CrawlRun | null) => void;
 }) => {
   const [url, setURl] = useState("");
   const [dataLoading, setDataLoading] = useState(false);
   const [configModalOpen, setConfigModalOpen] = useState(false);
-  const [crawlLimit, setCrawlLimit] = useState(50);
-  const [returnFormat, setReturnFormat] = useState("raw");
+  const [crawlLimit, setCrawlLimit] = useState(DEFAULT_SETTINGS.limit);
+  const [returnFormat, setReturnFormat] = useState(DEFAULT_SETTINGS.returnFormat);
   const [apiKey, setAPIKey] = useState("");
-  const [request, setRequest] = useState("smart");
-  const [fullResources, setFullResources] = useState(false);
+  const [request, setRequest] = useState(DEFAULT_SETTINGS.request);
+  const [fullResources, setFullResources] = useState(DEFAULT_SETTINGS.fullResources);
+  const [mode, setMode] = useState<RunMode>(DEFAULT_SETTINGS.mode);
+  const [include, setInclude] = useState("");
+  const [exclude, setExclude] = useState("");
+  const [depth, setDepth] = useState(DEFAULT_SETTINGS.scope.depth);
+  const [subdomains, setSubdomains] = useState(DEFAULT_SETTINGS.scope.subdomains);
+  const [queryStrings, setQueryStrings] = useState(DEFAULT_SETTINGS.scope.queryStrings);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [presets, setPresets] = useState<CrawlPreset[]>([]);
+  const [activePreset, setActivePreset] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [recentRuns, setRecentRuns] = useState<CrawlRun[]>([]);
+  const presetFileRef = useRef<HTMLInputElement>(null);
+  // Domain whose preset was last looked up, so editing settings by hand is not undone on blur
+  const presetDomainRef = useRef("");
   const crawledPagesRef = useRef<any[]>([]);
   const streamBufferRef = useRef("");
+  const abortRef = useRef<AbortController | null>(null);
+  const listFileRef = useRef<HTMLInputElement>(null);
   const auth = useAuthMenu();
   const { toast } = useToast();
 
   useEffect(() => {
     const prefill = new URLSearchParams(window.location.search).get("url");
-    if (prefill) setURl(prefill);
+    if (prefill) {
+      setURl(prefill);
+      restoreDomainPreset(prefill);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    getPresets().then(setPresets).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (configModalOpen) getRuns().then((runs) => setRecentRuns(runs.slice(0, MAX_RECENT_RUNS))).catch(console.error);
+  }, [configModalOpen]);
+
+  const currentSettings = (): CrawlSettings => ({
+    mode,
+    limit: crawlLimit,
+    returnFormat,
+    request,
+    fullResources,
+    scope: { include: parsePatterns(include), exclude: parsePatterns(exclude), depth, subdomains, queryStrings },
+  });
+
+  const applySettings = (settings: CrawlSettings) => {
+    setMode(settings.mode);
+    setCrawlLimit(settings.limit);
+    setReturnFormat(settings.returnFormat);
+    setRequest(settings.request);
+    setFullResources(settings.fullResources);
+    setInclude(settings.scope.include.join("\n"));
+    setExclude(settings.scope.exclude.join("\n"));
+    setDepth(settings.scope.depth);
+    setSubdomains(settings.scope.subdomains);
+    setQueryStrings(settings.scope.queryStrings);
+  };
+
+  const applyPreset = (name: string, list = presets) => {
+    const preset = list.find((p) => p.name === name);
+    if (!preset) return false;
+    applySettings(preset.settings);
+    setActivePreset(name);
+    return true;
+  };
+
+  const onSavePreset = async () => {
+    const name = presetName.trim() || activePreset;
+    if (!name) return toast({ title: "Name required", description: "Give the preset a name to save it." });
+    try {
+      await savePresets([{ name, settings: currentSettings(), updatedAt: Date.now() }]);
+      setPresets(await getPresets());
+      setActivePreset(name);
+      setPresetName("");
+      toast({ title: "Preset saved", description: `"${name}" is available for future runs.` });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Could not save preset", description: "Browser storage is unavailable.", variant: "destructive" });
+    }
+  };
+
+  const onDeletePreset = async () => {
+    if (!activePreset) return;
+    await deletePreset(activePreset).catch(console.error);
+    setPresets(await getPresets().catch(() => presets.filter((p) => p.name !== activePreset)));
+    setActivePreset("");
+  };
+
+  const onExportPresets = () => {
+    if (!presets.length) return toast({ title: "No presets", description: "Save a preset before exporting." });
+    const blob = new Blob([exportPresets(presets)], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = "schema-validator-presets.json";
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  const onImportPresets = async (file?: File) => {
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text());
+      if (!imported.length) return toast({ title: "No presets found", description: `${file.name} does not contain any named presets.` });
+      await savePresets(imported);
+      setPresets(await getPresets());
+      toast({ title: "Presets imported", description: `${imported.length} preset${imported.length === 1 ? "" : "s"} from ${file.name}.` });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Import failed", description: `${file.name} is not a valid presets file.`, variant: "destructive" });
+    }
+  };
+
+  // Load a saved run's URLs and settings so it can be run again as it was
+  const repeatRun = (id: string) => {
+    const run = recentRuns.find((r) => r.id === id);
+    if (!run) return;
+    applySettings(run.settings);
+    setActivePreset("");
+    setURl(run.urls.join(", "));
+    setConfigModalOpen(false);
+    toast({ title: "Run loaded", description: `Settings from ${run.domain}, ${timeAgo(run.startedAt)}. Press search to run it again.` });
+  };
+
+  // Switch to the preset last used for the entered domain, if there is one
+  const restoreDomainPreset = async (text: string) => {
+    const first = text.split(/[\s,]+/).find(Boolean);
+    const domain = first && getDomain(first);
+    if (!domain || domain === presetDomainRef.current) return;
+    presetDomainRef.current = domain;
+    try {
+      const name = await getDomainPreset(domain);
+      if (!name || name === activePreset) return;
+      const list = await getPresets();
+      setPresets(list);
+      if (applyPreset(name, list)) toast({ title: "Preset applied", description: `Using "${name}", last used for ${domain}.` });
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const onListFile = async (file?: File) => {
+    if (!file) return;
+    const urls = parseUrlList(await file.text());
+    if (!urls.length) return toast({ title: "No URLs found", description: `${file.name} does not contain any http(s) URLs.` });
+    setURl(urls.join(", "));
+    toast({ title: "URL list loaded", description: `${urls.length} URL${urls.length === 1 ? "" : "s"} from ${file.name}.` });
+  };
+
   const onAPIEvent = async (e: SyntheticEvent<HTMLFormElement>) => {
     e.preventDefault();
     const jwt = auth.$session?.access_token;
@@ -53,26 +260,80 @@ const SearchBar = ({
     if (!url) {
       return toast({ title: "URL Required", description: "Please enter a valid website url." });
     }
-    const urlList = url.trim().split(",").map((item) =>
+    const urlList = mode === "list" ? parseUrlList(url) : url.trim().split(",").map((item) =>
       item.startsWith("http://") || item.startsWith("https://") ? item.trim() : `https://${item.trim()}`
     ).filter(Boolean);
+    if (!urlList.length) {
+      return toast({ title: "URL Required", description: "No valid URLs found in the list." });
+    }
+    const authorization = apiKey || jwt;
+    const settings = currentSettings();
+    const run: CrawlRun = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      urls: urlList,
+      domain: getDomain(urlList[0]),
+      settings,
+      status: "running",
+      pageCount: 0,
+      startedAt: Date.now(),
+    };
+    onRunChange?.(run);
+    // Each run gets its own report, so listed URLs and issues only reflect this run's pages
+    setDataValues(null);
+    if (activePreset) setDomainPreset(run.domain, activePreset).catch(console.error);
     setDataLoading(true);
+    onStatusChange?.("running");
     crawledPagesRef.current = [];
     streamBufferRef.current = "";
+    const controller = new AbortController();
+    abortRef.current = controller;
     const current = performance.now();
     let pages = 0;
     let finished = false;
-    toast({ title: "Crawling started", description: `Fetching up to ${crawlLimit} pages from ${urlList.length} website${urlList.length === 1 ? "" : "s"}...` });
+    let cancelled = false;
     try {
-      const res = await fetch(API_URL + "/crawl", {
+      let targets: string[] | null = null;
+      if (mode === "sitemap") {
+        toast({ title: "Reading sitemap", description: `Collecting URLs from ${urlList.length} sitemap${urlList.length === 1 ? "" : "s"}...` });
+        targets = await fetchSitemapUrls(urlList.map(toSitemapUrl), authorization, controller.signal);
+        if (!targets.length) {
+          toast({ title: "Empty sitemap", description: "No page URLs were found in the sitemap.", variant: "destructive" });
+          return;
+        }
+        if (targets.length > crawlLimit) {
+          toast({ title: "Sitemap truncated", description: `The sitemap lists ${targets.length} URLs; validating the first ${crawlLimit} (the crawl limit).` });
+          targets = targets.slice(0, crawlLimit);
+        }
+      } else if (mode === "list") {
+        targets = urlList;
+      }
+      onTargetsChange?.(targets);
+      setProgress(startProgress(targets ? targets.length : crawlLimit));
+      toast(targets
+        ? { title: "Fetching pages", description: `Fetching ${targets.length} listed page${targets.length === 1 ? "" : "s"}...` }
+        : { title: "Crawling started", description: `Fetching up to ${crawlLimit} pages from ${urlList.length} website${urlList.length === 1 ? "" : "s"}...` });
+      const res = await fetch(API_URL + (targets ? "/scrape" : "/crawl"), {
         method: "POST",
-        body: JSON.stringify({ url: urlList.join(","), limit: crawlLimit, return_format: returnFormat, request, return_json_data: true, ...(fullResources && { full_resources: true }) }),
-        headers: { "content-type": "application/jsonl", authorization: apiKey || jwt },
+        body: JSON.stringify({
+          url: (targets || urlList).join(","),
+          ...(!targets && { limit: crawlLimit, ...scopeParams(settings.scope) }),
+          return_format: returnFormat,
+          request,
+          return_json_data: true,
+          ...(fullResources && { full_resources: true, return_headers: true }),
+        }),
+        headers: { "content-type": "application/jsonl", authorization },
+        signal: controller.signal,
       });
       if (!res.ok) {
         toast({ title: "Crawl failed", description: `Server returned ${res.status}. Check your API key and credits.`, variant: "destructive" });
       } else {
-        finished = true;
+        const onPage = (page: any) => {
+          crawledPagesRef.current.push(page);
+          pages++;
+          setDataValues((prev: any) => prev ? [...prev, page] : [page]);
+          setProgress((prev) => prev && recordPage(prev, page));
+        };
         const reader = res.body?.getReader();
         const decoder = new TextDecoder();
         if (reader) {
@@ -80,8 +341,9 @@ const SearchBar = ({
             const { done, value } = await reader.read();
             if (done) {
               if (streamBufferRef.current.trim()) {
-                try { const p = JSON.parse(streamBufferRef.current.trim()); crawledPagesRef.current.push(p); pages++; setDataValues((prev: any) => prev ? [...prev, p] : [p]); } catch {}
+                try { onPage(JSON.parse(streamBufferRef.current.trim())); } catch {}
               }
+              finished = true;
               break;
             }
             streamBufferRef.current += decoder.decode(value, { stream: true });
@@ -90,24 +352,40 @@ const SearchBar = ({
             for (const line of lines) {
               const trimmed = line.trim();
               if (!trimmed) continue;
-              try { const parsed = JSON.parse(trimmed); crawledPagesRef.current.push(parsed); pages++; setDataValues((prev: any) => prev ? [...prev, parsed] : [parsed]); } catch {}
+              try { onPage(JSON.parse(trimmed)); } catch {}
             }
           }
+        } else {
+          finished = true;
         }
       }
     } catch (e) {
-      console.error(e);
-      toast({ title: "Network error", description: "Could not reach the server. Please try again.", variant: "destructive" });
+      if (controller.signal.aborted) {
+        cancelled = true;
+      } else {
+        console.error(e);
+        toast(pages
+          ? { title: "Crawl interrupted", description: `The connection dropped after ${pages} page${pages === 1 ? "" : "s"}. Pages streamed so far have been kept.`, variant: "destructive" }
+          : { title: "Network error", description: "Could not reach the server. Please try again.", variant: "destructive" });
+      }
     } finally {
       setDataLoading(false);
+      setProgress(null);
+      abortRef.current = null;
       streamBufferRef.current = "";
-      if (!finished && !pages) {
-        // error toast already shown above
+      const status: CrawlStatus = cancelled ? "cancelled" : finished ? "complete" : "failed";
+      onStatusChange?.(status);
+      const ended = { ...run, status, pageCount: pages };
+      onRunChange?.(ended);
+      saveRun(ended).catch(console.error);
+      if (cancelled) {
+        toast({ title: "Crawl cancelled", description: `Kept ${pages} page${pages === 1 ? "" : "s"} streamed before cancelling.` });
       } else if (finished) {
         toast({ title: "Crawl complete", description: `${pages} page${pages === 1 ? "" : "s"} crawled in ${ms(performance.now() - current, { long: true })}.` });
-        if (crawledPagesRef.current.length) {
-          savePages(crawledPagesRef.current).then(() => onSaveComplete?.()).catch(console.error);
-        }
+      }
+      // Failed runs already showed their error toast; pages streamed before the failure are still kept
+      if (crawledPagesRef.current.length) {
+        savePages(crawledPagesRef.current).then(() => onSaveComplete?.()).catch(console.error);
       }
       crawledPagesRef.current = [];
     }
@@ -126,6 +404,14 @@ const SearchBar = ({
           </a>
           {auth?.$session ? (
             <form className="flex items-center gap-2 flex-1 min-w-0 justify-end" onSubmit={onAPIEvent} noValidate>
+              <Select value={mode} onValueChange={(v: string) => setMode(v as RunMode)}>
+                <SelectTrigger className="h-9 w-[110px] text-xs rounded-lg shrink-0"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="crawl">Crawl</SelectItem>
+                  <SelectItem value="sitemap">Sitemap</SelectItem>
+                  <SelectItem value="list">URL list</SelectItem>
+                </SelectContent>
+              </Select>
               <div className="relative w-full max-w-xs sm:max-w-sm">
                 <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
                   <VscSearch className="w-4 h-4 text-muted-foreground" />
@@ -135,11 +421,26 @@ const SearchBar = ({
                   type="text"
                   id="website-form"
                   className="pl-9 pr-3 h-9 text-sm w-full rounded-lg border-muted-foreground/25 bg-muted/40 placeholder:text-muted-foreground/50 focus-visible:ring-[#3bde77]/40 focus-visible:border-[#3bde77]/50 transition-colors"
-                  placeholder="Enter website URL to crawl..."
+                  placeholder={PLACEHOLDERS[mode]}
                   value={url}
                   onChange={(e) => setURl(e.currentTarget.value)}
+                  onBlur={() => restoreDomainPreset(url)}
                 />
               </div>
+              {mode === "list" && (
+                <>
+                  <input
+                    ref={listFileRef}
+                    type="file"
+                    accept=".txt,.csv,.xml"
+                    className="hidden"
+                    onChange={(e) => { onListFile(e.currentTarget.files?.[0]); e.currentTarget.value = ""; }}
+                  />
+                  <Button type="button" variant="ghost" size="sm" title="Upload a URL list" onClick={() => listFileRef.current?.click()} className="h-9 w-9 p-0 rounded-lg text-muted-foreground hover:text-foreground shrink-0">
+                    <VscCloudUpload className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
               <Button
                 type="submit"
                 size="sm"
@@ -152,9 +453,15 @@ const SearchBar = ({
                   "Crawl"
                 )}
               </Button>
+              {dataLoading && (
+                <Button type="button" variant="outline" size="sm" onClick={() => abortRef.current?.abort()} className="h-9 px-3 rounded-lg shrink-0">
+                  Cancel
+                </Button>
+              )}
             </form>
           ) : <div className="flex-1" />}
           <div className="flex items-center gap-1 shrink-0">
+            <OfflineInput onLoad={(pages) => { setDataValues(pages); onStatusChange?.("complete"); onTargetsChange?.(null); onRunChange?.(null); }} />
             <AppSwitcher currentUrl={url} />
             {auth?.$session ? (
               <Button type="button" variant="ghost" size="sm" onClick={() => setConfigModalOpen(true)} className="h-8 w-8 p-0 rounded-lg text-muted-foreground hover:text-foreground">
@@ -165,6 +472,7 @@ const SearchBar = ({
           </div>
         </div>
       </nav>
+      {dataLoading && progress && <CrawlProgress progress={progress} />}
       {configModalOpen && (
         <Dialog open={configModalOpen} onOpenChange={setConfigModalOpen}>
           <DialogOverlay />
@@ -174,13 +482,54 @@ const SearchBar = ({
               <DialogDescription>Set your crawl options.</DialogDescription>
             </DialogHeader>
             <div className="flex flex-col gap-3">
+              <div className="flex items-center">
+                <Label className="flex-1">Preset:</Label>
+                <Select value={activePreset || "none"} onValueChange={(v: string) => (v === "none" ? setActivePreset("") : applyPreset(v))}>
+                  <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No preset</SelectItem>
+                    {presets.map((p) => (
+                      <SelectItem key={p.name} value={p.name}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input placeholder={activePreset || "Preset name"} value={presetName} onChange={(e) => setPresetName(e.currentTarget.value)} className="flex-1 h-8 text-xs" />
+                <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={onSavePreset}>Save</Button>
+                {activePreset && <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={onDeletePreset}>Delete</Button>}
+                <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={onExportPresets}>Export</Button>
+                <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={() => presetFileRef.current?.click()}>Import</Button>
+                <input
+                  ref={presetFileRef}
+                  type="file"
+                  accept=".json"
+                  className="hidden"
+                  onChange={(e) => { onImportPresets(e.currentTarget.files?.[0]); e.currentTarget.value = ""; }}
+                />
+              </div>
+              {recentRuns.length > 0 && (
+                <div className="flex items-center">
+                  <Label className="flex-1">Repeat a run:</Label>
+                  <Select value="" onValueChange={repeatRun}>
+                    <SelectTrigger className="w-[180px]"><SelectValue placeholder="Saved runs" /></SelectTrigger>
+                    <SelectContent>
+                      {recentRuns.map((r) => (
+                        <SelectItem key={r.id} value={r.id} title={describeSettings(r.settings).join(" · ")}>
+                          {r.domain} · {timeAgo(r.startedAt)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="flex items-center">
                 <Label htmlFor="crawlLimit" className="flex-1">Crawl Limit:</Label>
                 <Input type="number" id="crawlLimit" className="w-1/2" value={crawlLimit} onChange={(e) => setCrawlLimit(Number(e.currentTarget.value))} min="1" max="1000" />
               </div>
               <div className="flex items-center">
                 <Label className="flex-1">Return Format:</Label>
-                <Select onValueChange={setReturnFormat} defaultValue={returnFormat}>
+                <Select onValueChange={setReturnFormat} value={returnFormat}>
                   <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
                   <SelectContent>
                     <SelectItem value="raw">Raw</SelectItem>
@@ -191,7 +540,7 @@ const SearchBar = ({
               </div>
               <div className="flex items-center">
                 <Label className="flex-1">Request:</Label>
-                <Select onValueChange={setRequest} defaultValue={request}>
+                <Select onValueChange={setRequest} value={request}>
                   <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
                   <SelectContent>
                     <SelectItem value="http">HTTP</SelectItem>
@@ -202,7 +551,7 @@ const SearchBar = ({
               </div>
               <div className="flex items-center">
                 <Label className="flex-1">Full Resources:</Label>
-                <Select onValueChange={(v: string) => setFullResources(v === "true")} defaultValue="false">
+                <Select onValueChange={(v: string) => setFullResources(v === "true")} value={String(fullResources)}>
                   <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
                   <SelectContent>
                     <SelectItem value="false">Off</SelectItem>
@@ -210,6 +559,54 @@ const SearchBar = ({
                   </SelectContent>
                 </Select>
               </div>
+              <p className="text-xs font-medium text-muted-foreground pt-2 border-t">Crawl scope (discovery crawls only)</p>
+              <div className="flex items-start gap-2">
+                <Label htmlFor="include-paths" className="flex-1 pt-2">Include paths:</Label>
+                <textarea
+                  id="include-paths"
+                  rows={2}
+                  value={include}
+                  onChange={(e) => setInclude(e.currentTarget.value)}
+                  placeholder="/blog/*"
+                  className="w-1/2 rounded-md border border-input bg-background px-3 py-2 font-mono text-xs placeholder:text-muted-foreground/50"
+                />
+              </div>
+              <div className="flex items-start gap-2">
+                <Label htmlFor="exclude-paths" className="flex-1 pt-2">Exclude paths:</Label>
+                <textarea
+                  id="exclude-paths"
+                  rows={2}
+                  value={exclude}
+                  onChange={(e) => setExclude(e.currentTarget.value)}
+                  placeholder={"/tag/\n/page/*"}
+                  className="w-1/2 rounded-md border border-input bg-background px-3 py-2 font-mono text-xs placeholder:text-muted-foreground/50"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground -mt-1">One pattern per line; * matches anything.</p>
+              <div className="flex items-center">
+                <Label htmlFor="crawlDepth" className="flex-1">Max Depth (0 = no limit):</Label>
+                <Input type="number" id="crawlDepth" className="w-1/2" value={depth} onChange={(e) => setDepth(Math.max(0, Number(e.currentTarget.value)))} min="0" max="100" />
+              </div>
+              <div className="flex items-center">
+                <Label className="flex-1">Subdomains:</Label>
+                <Select onValueChange={(v: string) => setSubdomains(v === "true")} value={String(subdomains)}>
+                  <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="false">Stay on host</SelectItem>
+                    <SelectItem value="true">Include subdomains</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center">
+                <Label className="flex-1">Query Strings:</Label>
+                <Select onValueChange={(v: string) => setQueryStrings(v as CrawlSettings["scope"]["queryStrings"])} value={queryStrings}>
+                  <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="crawl">Crawl</SelectItem>
+                    <SelectItem value="skip">Skip URLs with ?</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div>
                 <Label htmlFor="sk-key">API Key</Label>
                 <Input placeholder="sk-somesecret" type="password" id="sk-key" onChange={(e) => setAPIKey(e.currentTarget.value)} />
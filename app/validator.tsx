@@ -2,44 +2,55 @@
 
 import { useState, useMemo, Fragment } from "react";
 import SearchBar from "./searchbar";
+import { describeIssue, describeSettings, getCrawlIssues, getPageIssue, type CrawlStatus, type IssueKind } from "@/lib/crawl";
+import type { CrawlRun } from "@/lib/storage";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { validateSchema } from "@/lib/schema/validate";
+import { checkEligibility, type Eligibility } from "@/lib/schema/profiles";
+import { getNodeTypes } from "@/lib/schema/context";
+import { processJsonLd } from "@/lib/schema/jsonld";
+import { extractFromHtml, getBaseUrl, SYNTAX_LABELS, type Syntax } from "@/lib/schema/extract";
+import { getFailureFindings, type ParseFailure } from "@/lib/schema/repair";
+import { suggestFix } from "@/lib/schema/fix";
+import { diffLines } from "@/lib/schema/diff";
+import { analyzeSite, findConflicts, type PropertyConflict } from "@/lib/schema/site";
+import { checkVisibleContent, getVisibleContent } from "@/lib/schema/visible";
+import { checkBreadcrumbs } from "@/lib/schema/breadcrumb";
+import { pageKey } from "@/lib/url";
+import { checkCommerce } from "@/lib/schema/commerce";
+import { entityKey, identityKey } from "@/lib/schema/identity";
+import { analyzeCoverage } from "@/lib/schema/coverage";
+import { checkListedUrls, type ListedStatus } from "@/lib/url-list";
+import { checkMedia, collectResources, isAssetPage, type MediaReference } from "@/lib/schema/media";
+import { countBySeverity, hasErrors, RULES, type Finding, type Severity } from "@/lib/schema/findings";
 
 interface SchemaItem {
   url: string;
-  type: string;
+  // Identity shared by copies of the same entity, independent of key order and whitespace
+  key: string;
+  // Every page the entity was found on; just `url` in the per-page view
+  pages: string[];
+  syntax: Syntax;
+  types: string[];
   data: Record<string, any>;
-  warnings: string[];
+  // Expanded and linked form the checks run on
+  entity: Record<string, any>;
+  findings: Finding[];
   valid: boolean;
+  eligibility: Eligibility[];
+  // Image and media URLs the crawl did not fetch, so they could not be checked
+  unverifiedMedia: MediaReference[];
+  // Properties that differ between copies sharing an @id; unique entities view only
+  conflicts?: PropertyConflict[];
+  // Set for JSON-LD blocks that could not be parsed
+  parseError?: ParseFailure;
 }
 
-// Required fields for common schema types
-const REQUIRED_FIELDS: Record<string, string[]> = {
-  Article: ["headline", "author", "datePublished", "image"],
-  NewsArticle: ["headline", "author", "datePublished", "image"],
-  BlogPosting: ["headline", "author", "datePublished"],
-  Product: ["name", "image", "offers"],
-  Organization: ["name", "url"],
-  WebSite: ["name", "url"],
-  WebPage: ["name"],
-  LocalBusiness: ["name", "address", "telephone"],
-  Person: ["name"],
-  BreadcrumbList: ["itemListElement"],
-  FAQPage: ["mainEntity"],
-  HowTo: ["name", "step"],
-  Recipe: ["name", "recipeIngredient", "recipeInstructions"],
-  Event: ["name", "startDate", "location"],
-  VideoObject: ["name", "description", "thumbnailUrl", "uploadDate"],
-  ImageObject: ["contentUrl"],
-  Review: ["itemReviewed", "reviewRating", "author"],
-  AggregateRating: ["ratingValue", "reviewCount"],
-  JobPosting: ["title", "description", "datePosted", "hiringOrganization"],
-  Course: ["name", "description", "provider"],
-  SoftwareApplication: ["name", "offers"],
-};
-
 const TYPE_COLORS: Record<string, string> = {
+  "Invalid JSON": "bg-red-500/15 text-red-400 border-red-500/20",
   Article: "bg-blue-500/15 text-blue-400 border-blue-500/20",
   NewsArticle: "bg-blue-500/15 text-blue-400 border-blue-500/20",
   BlogPosting: "bg-blue-500/15 text-blue-400 border-blue-500/20",
@@ -58,9 +69,36 @@ const TYPE_COLORS: Record<string, string> = {
   Review: "bg-fuchsia-500/15 text-fuchsia-400 border-fuchsia-500/20",
 };
 
-type SortKey = "url" | "type" | "warnings";
+type SortKey = "url" | "type" | "issues";
 type SortDir = "asc" | "desc";
-type FilterStatus = "all" | "valid" | "warnings";
+type FilterStatus = "all" | "valid" | "errors" | "warnings" | "eligible" | "ineligible";
+type ViewMode = "pages" | "entities";
+type ReportTab = "schema" | "issues";
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  error: "bg-red-500/15 text-red-400 border-red-500/20",
+  warning: "bg-yellow-500/15 text-yellow-400 border-yellow-500/20",
+  info: "bg-blue-500/15 text-blue-400 border-blue-500/20",
+};
+
+const LISTED_LABELS: Record<ListedStatus, { label: string; color: string }> = {
+  ok: { label: "OK", color: "text-green-400" },
+  failed: { label: "Failed", color: "text-red-400" },
+  "not-fetched": { label: "Not fetched", color: "text-red-400" },
+  "no-schema": { label: "No structured data", color: "text-yellow-400" },
+};
+
+const ISSUE_LABELS: Record<IssueKind, { label: string; color: string }> = {
+  blocked: { label: "Blocked", color: "text-orange-400" },
+  "not-found": { label: "Not found", color: "text-yellow-400" },
+  "client-error": { label: "Client error", color: "text-yellow-400" },
+  "server-error": { label: "Server error", color: "text-red-400" },
+  "fetch-error": { label: "Fetch failed", color: "text-red-400" },
+};
+
+function csvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
 
 function SortIcon({ active, dir }: { active: boolean; dir: SortDir }) {
   return (
@@ -71,98 +109,164 @@ function SortIcon({ active, dir }: { active: boolean; dir: SortDir }) {
   );
 }
 
-function extractSchemaFromHtml(html: string): any[] {
-  const schemas: any[] = [];
-  const regex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
-  let match;
-  while ((match = regex.exec(html)) !== null) {
-    try {
-      const parsed = JSON.parse(match[1]);
-      if (Array.isArray(parsed)) schemas.push(...parsed);
-      else schemas.push(parsed);
-    } catch {}
-  }
-  return schemas;
-}
-
-function validateSchema(data: Record<string, any>): string[] {
-  const warnings: string[] = [];
-  const type = data["@type"] || "";
-  if (!data["@type"]) warnings.push("Missing @type property");
-  if (!data["@context"] && !data["@id"]) warnings.push("Missing @context");
-
-  const required = REQUIRED_FIELDS[type];
-  if (required) {
-    for (const field of required) {
-      if (!data[field] && data[field] !== 0 && data[field] !== false) {
-        warnings.push(`Missing recommended field: ${field}`);
-      }
-    }
-  }
+function SuggestedFixPane({ data, url, onCopy }: { data: Record<string, any>; url: string; onCopy: (text: string) => void }) {
+  const [view, setView] = useState<"snippet" | "diff">("snippet");
+  const fix = useMemo(() => suggestFix(data, url), [data, url]);
+  const snippet = JSON.stringify(fix.snippet, null, 2);
+  const diff = useMemo(() => diffLines(JSON.stringify(data, null, 2), snippet), [data, snippet]);
 
-  // Check for empty string values in important fields
-  for (const [key, value] of Object.entries(data)) {
-    if (typeof value === "string" && value.trim() === "" && key !== "@context") {
-      warnings.push(`Empty value for: ${key}`);
-    }
-  }
-
-  return warnings;
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center justify-between mb-1 gap-2">
+        <p className="text-xs font-medium text-green-400">Suggested fix:</p>
+        <div className="flex gap-1">
+          {(["snippet", "diff"] as const).map((v) => (
+            <button
+              key={v}
+              onClick={(e) => { e.stopPropagation(); setView(v); }}
+              className={`px-2 py-0.5 rounded text-[11px] border ${view === v ? "bg-[#3bde77]/15 text-[#3bde77] border-[#3bde77]/30" : "text-muted-foreground border-transparent"}`}
+            >
+              {v === "snippet" ? "Snippet" : "Diff"}
+            </button>
+          ))}
+          <Button variant="outline" size="sm" className="h-6 text-xs" onClick={(e) => { e.stopPropagation(); onCopy(snippet); }}>
+            Copy
+          </Button>
+        </div>
+      </div>
+      {view === "snippet" ? (
+        <pre className="text-xs bg-background/50 rounded border border-green-500/20 p-3 overflow-x-auto max-h-64 overflow-y-auto">{snippet}</pre>
+      ) : (
+        <pre className="text-xs bg-background/50 rounded border p-3 overflow-x-auto max-h-64 overflow-y-auto">
+          {diff.map((line, i) => (
+            <div key={i} className={line.kind === "added" ? "bg-green-500/15 text-green-400" : line.kind === "removed" ? "bg-red-500/15 text-red-400" : undefined}>
+              <span className="select-none text-muted-foreground/50 mr-2">{line.kind === "added" ? "+" : line.kind === "removed" ? "-" : " "}</span>
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+      {fix.changes.length > 0 ? (
+        <ul className="mt-2 space-y-0.5">
+          {fix.changes.map((c, i) => (
+            <li key={i} className="text-[11px] text-muted-foreground pl-3 border-l-2 border-green-500/30">{c}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-[11px] text-muted-foreground">No automatic fixes apply; the remaining findings need manual changes.</p>
+      )}
+    </div>
+  );
 }
 
 export default function Validator() {
   const [data, setData] = useState<any[] | null>(null);
   const [expanded, setExpanded] = useState<Set<number>>(new Set());
-  const [sortKey, setSortKey] = useState<SortKey>("warnings");
+  const [sortKey, setSortKey] = useState<SortKey>("issues");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [filter, setFilter] = useState<FilterStatus>("all");
+  const [ruleFilter, setRuleFilter] = useState<string>("all");
+  const [syntaxFilter, setSyntaxFilter] = useState<Syntax | "all">("all");
+  const [view, setView] = useState<ViewMode>("pages");
+  const [openTemplate, setOpenTemplate] = useState<string | null>(null);
+  const [crawlStatus, setCrawlStatus] = useState<CrawlStatus | null>(null);
+  const [targets, setTargets] = useState<string[] | null>(null);
+  const [run, setRun] = useState<CrawlRun | null>(null);
+  const [tab, setTab] = useState<ReportTab>("schema");
+  // Soft-404 and error templates often carry the site's usual markup, which would skew the report
+  const [excludeErrorPages, setExcludeErrorPages] = useState(false);
   const { toast } = useToast();
 
-  const schemas = useMemo(() => {
+  const allSchemas = useMemo(() => {
     if (!data?.length) return [];
     const items: SchemaItem[] = [];
 
+    // Pages that failed in this crawl, for checking links made from markup
+    const errorPages = new Map<string, string>();
     for (const page of data) {
       if (!page?.url) continue;
+      const issue = getPageIssue(page);
+      if (issue) errorPages.set(pageKey(page.url), describeIssue(issue));
+    }
+    // Every fetched URL, including the images and files full_resources adds to the crawl
+    const resources = collectResources(data);
+
+    for (const page of data) {
+      if (!page?.url || isAssetPage(page)) continue;
 
       // Try json_data from API response first
-      let jsonData: any[] = [];
+      const blocks: Record<Syntax, any[]> = { "json-ld": [], microdata: [], rdfa: [] };
+      let failures: ParseFailure[] = [];
       if (page.json_data) {
-        if (Array.isArray(page.json_data)) jsonData = page.json_data;
-        else if (typeof page.json_data === "object") jsonData = [page.json_data];
+        if (Array.isArray(page.json_data)) blocks["json-ld"] = page.json_data;
+        else if (typeof page.json_data === "object") blocks["json-ld"] = [page.json_data];
       }
 
-      // Also parse from HTML content as fallback
+      // Also parse from HTML content as fallback, along with Microdata and RDFa
       if (page.content && typeof page.content === "string") {
-        const htmlSchemas = extractSchemaFromHtml(page.content);
-        jsonData = [...jsonData, ...htmlSchemas];
+        const extracted = extractFromHtml(page.content, page.url);
+        blocks["json-ld"] = [...blocks["json-ld"], ...extracted.blocks["json-ld"]];
+        blocks.microdata = extracted.blocks.microdata;
+        blocks.rdfa = extracted.blocks.rdfa;
+        failures = extracted.failures;
       }
 
-      // Handle @graph arrays
-      const flattened: any[] = [];
-      for (const item of jsonData) {
-        if (item?.["@graph"] && Array.isArray(item["@graph"])) {
-          for (const g of item["@graph"]) flattened.push({ ...g, "@context": g["@context"] || item["@context"] });
-        } else {
-          flattened.push(item);
-        }
-      }
+      // Link @id references across every block on the page, including @graph members
+      const nodes = (Object.keys(blocks) as Syntax[]).flatMap((syntax) =>
+        processJsonLd(blocks[syntax], page.url).map((node) => ({ ...node, syntax }))
+      );
+      const standalone = nodes.map((n) => n.linked);
+      const baseUrl = typeof page.content === "string" ? getBaseUrl(page.content, page.url) : page.url;
+      // Markup-only input (a pasted JSON-LD block, an empty shell page) has no text to compare against
+      const visible = typeof page.content === "string" && page.content ? getVisibleContent(page.content) : undefined;
 
-      // Dedupe by stringified content
+      // Dedupe by normalized content, so reordered keys or reflowed text do not count twice
       const seen = new Set<string>();
-      for (const item of flattened) {
-        const key = JSON.stringify(item);
+      for (const node of nodes) {
+        const key = `${node.syntax}:${entityKey(node.linked)}`;
         if (seen.has(key)) continue;
         seen.add(key);
 
-        const type = item?.["@type"] || "Unknown";
-        const warnings = validateSchema(item);
+        const types = getNodeTypes(node.linked);
+        const media = checkMedia(node.linked, page.url, resources, standalone, baseUrl);
+        const findings = [
+          ...validateSchema(node.linked, standalone),
+          ...node.issues,
+          ...checkBreadcrumbs(node.linked, page.url, errorPages, standalone),
+          ...checkCommerce(node.linked, standalone),
+          ...media.findings,
+          ...(visible?.text ? checkVisibleContent(node.linked, visible, standalone) : []),
+        ];
         items.push({
           url: page.url,
-          type: Array.isArray(type) ? type.join(", ") : type,
-          data: item,
-          warnings,
-          valid: warnings.length === 0,
+          key,
+          pages: [page.url],
+          syntax: node.syntax,
+          types: types.length ? types : ["Unknown"],
+          data: node.data,
+          entity: node.linked,
+          findings,
+          valid: !hasErrors(findings),
+          eligibility: checkEligibility(node.linked, types),
+          unverifiedMedia: media.unverified,
+        });
+      }
+
+      // Broken script blocks are listed rather than dropped, so the page does not look empty
+      for (const failure of failures) {
+        items.push({
+          url: page.url,
+          key: `invalid:${failure.source.replace(/\s+/g, " ").trim()}`,
+          pages: [page.url],
+          syntax: "json-ld",
+          types: ["Invalid JSON"],
+          data: {},
+          entity: {},
+          findings: getFailureFindings(failure),
+          valid: false,
+          eligibility: [],
+          unverifiedMedia: [],
+          parseError: failure,
         });
       }
     }
@@ -170,19 +274,71 @@ export default function Validator() {
     return items;
   }, [data]);
 
+  const crawlIssues = useMemo(() => getCrawlIssues(data || []), [data]);
+  // Schema items per failed page, to spot error templates that still carry markup
+  const issueSchemaCounts = useMemo(() => {
+    const counts = new Map(crawlIssues.map((i) => [pageKey(i.url), 0]));
+    for (const s of allSchemas) {
+      const key = pageKey(s.url);
+      if (counts.has(key)) counts.set(key, counts.get(key)! + 1);
+    }
+    return counts;
+  }, [crawlIssues, allSchemas]);
+  const schemas = useMemo(
+    () => (excludeErrorPages ? allSchemas.filter((s) => !issueSchemaCounts.has(pageKey(s.url))) : allSchemas),
+    [allSchemas, excludeErrorPages, issueSchemaCounts]
+  );
+
+  // One row per distinct entity, carrying every page it appears on: copies sharing an @id are
+  // one entity, the rest match on content. Findings that depend on the page (visible content,
+  // breadcrumb paths) are merged across copies.
+  const uniqueEntities = useMemo(() => {
+    const map = new Map<string, SchemaItem>();
+    const copies = new Map<string, { page: string; node: Record<string, any> }[]>();
+    for (const s of schemas) {
+      const key = s.parseError ? s.key : `${s.syntax}:${identityKey(s.entity)}`;
+      copies.set(key, [...(copies.get(key) || []), { page: s.url, node: s.entity }]);
+      const entry = map.get(key);
+      if (!entry) {
+        map.set(key, { ...s, key, pages: [s.url] });
+        continue;
+      }
+      if (!entry.pages.includes(s.url)) entry.pages.push(s.url);
+      for (const f of s.findings) {
+        if (!entry.findings.some((e) => e.rule === f.rule && e.path === f.path && e.message === f.message)) entry.findings = [...entry.findings, f];
+      }
+      entry.valid = !hasErrors(entry.findings);
+    }
+    copies.forEach((group, key) => {
+      const conflicts = group.length > 1 ? findConflicts(group) : [];
+      if (conflicts.length) map.get(key)!.conflicts = conflicts;
+    });
+    return Array.from(map.values());
+  }, [schemas]);
+
+  const items = view === "entities" ? uniqueEntities : schemas;
+
   const filtered = useMemo(() => {
-    let list = schemas;
+    let list = items;
     if (filter === "valid") list = list.filter((s) => s.valid);
-    else if (filter === "warnings") list = list.filter((s) => !s.valid);
+    else if (filter === "errors") list = list.filter((s) => !s.valid);
+    else if (filter === "warnings") list = list.filter((s) => countBySeverity(s.findings, "warning") > 0);
+    else if (filter === "eligible") list = list.filter((s) => s.eligibility.some((e) => e.eligible));
+    else if (filter === "ineligible") list = list.filter((s) => s.eligibility.some((e) => !e.eligible));
+    if (syntaxFilter !== "all") list = list.filter((s) => s.syntax === syntaxFilter);
+    if (ruleFilter !== "all") list = list.filter((s) => s.findings.some((f) => f.rule === ruleFilter));
 
     return [...list].sort((a, b) => {
       let cmp = 0;
       if (sortKey === "url") cmp = a.url.localeCompare(b.url);
-      else if (sortKey === "type") cmp = a.type.localeCompare(b.type);
-      else if (sortKey === "warnings") cmp = a.warnings.length - b.warnings.length;
+      else if (sortKey === "type") cmp = a.types.join(", ").localeCompare(b.types.join(", "));
+      else if (sortKey === "issues") {
+        cmp = countBySeverity(a.findings, "error") - countBySeverity(b.findings, "error")
+          || countBySeverity(a.findings, "warning") - countBySeverity(b.findings, "warning");
+      }
       return sortDir === "desc" ? -cmp : cmp;
     });
-  }, [schemas, filter, sortKey, sortDir]);
+  }, [items, filter, ruleFilter, syntaxFilter, sortKey, sortDir]);
 
   const toggleSort = (key: SortKey) => {
     if (sortKey === key) setSortDir((d) => (d === "asc" ? "desc" : "asc"));
@@ -198,33 +354,134 @@ export default function Validator() {
     });
   };
 
-  const pageCount = data?.filter((p) => p?.url).length || 0;
-  const validCount = schemas.filter((s) => s.valid).length;
-  const warningCount = schemas.filter((s) => !s.valid).length;
+  const pages = useMemo(() => Array.from(new Set<string>((data || []).filter((p) => p?.url && !isAssetPage(p)).map((p) => p.url))), [data]);
+  const assetCount = data?.filter((p) => p?.url && isAssetPage(p)).length || 0;
+  const pageCount = pages.length;
+  const validCount = items.filter((s) => s.valid).length;
+  const errorCount = items.filter((s) => !s.valid).length;
+  const warningCount = items.filter((s) => countBySeverity(s.findings, "warning") > 0).length;
+  const eligibleCount = items.filter((s) => s.eligibility.some((e) => e.eligible)).length;
+  const ineligibleCount = items.filter((s) => s.eligibility.some((e) => !e.eligible)).length;
+
+  const syntaxBreakdown = useMemo(() => {
+    const map = new Map<Syntax, number>();
+    for (const s of items) map.set(s.syntax, (map.get(s.syntax) || 0) + 1);
+    return Array.from(map.entries());
+  }, [items]);
+
+  // Rules that fired, with the number of items each one fired on
+  const ruleBreakdown = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const s of items) {
+      for (const rule of new Set(s.findings.map((f) => f.rule))) map.set(rule, (map.get(rule) || 0) + 1);
+    }
+    return Array.from(map.entries()).sort((a, b) => b[1] - a[1]);
+  }, [items]);
 
   // Unique types
   const typeBreakdown = useMemo(() => {
     const map = new Map<string, number>();
-    for (const s of schemas) {
-      map.set(s.type, (map.get(s.type) || 0) + 1);
+    for (const s of items) {
+      for (const type of s.types) map.set(type, (map.get(type) || 0) + 1);
     }
     return Array.from(map.entries()).sort((a, b) => b[1] - a[1]);
+  }, [items]);
+
+  // A page is eligible for a feature when at least one of its items is
+  const eligibilityBreakdown = useMemo(() => {
+    const map = new Map<string, { name: string; eligibleItems: number; ineligibleItems: number; pages: Map<string, boolean> }>();
+    for (const s of schemas) {
+      for (const e of s.eligibility) {
+        const entry = map.get(e.profile) || { name: e.name, eligibleItems: 0, ineligibleItems: 0, pages: new Map<string, boolean>() };
+        if (e.eligible) entry.eligibleItems++;
+        else entry.ineligibleItems++;
+        entry.pages.set(s.url, entry.pages.get(s.url) || e.eligible);
+        map.set(e.profile, entry);
+      }
+    }
+    return Array.from(map.entries()).map(([profile, entry]) => {
+      const pages = Array.from(entry.pages.values());
+      const eligiblePages = pages.filter(Boolean).length;
+      return { profile, name: entry.name, eligibleItems: entry.eligibleItems, ineligibleItems: entry.ineligibleItems, eligiblePages, ineligiblePages: pages.length - eligiblePages };
+    }).sort((a, b) => b.ineligiblePages - a.ineligiblePages || a.name.localeCompare(b.name));
+  }, [schemas]);
+
+  const siteEntities = useMemo(
+    () => analyzeSite(schemas, pages),
+    [schemas, pages]
+  );
+
+  // Pages grouped by inferred URL template, with how much of each template carries markup
+  const coverage = useMemo(() => analyzeCoverage(pages, schemas), [pages, schemas]);
+
+  // For sitemap and URL-list runs, what happened to each listed URL
+  const listed = useMemo(() => {
+    if (!targets) return [];
+    const withSchema = new Set(schemas.filter((s) => s.types.some((t) => t !== "Invalid JSON")).map((s) => s.url));
+    return checkListedUrls(targets, data || [], withSchema);
+  }, [targets, data, schemas]);
+  const listedProblems = listed.filter((l) => l.status !== "ok");
+
+  // Media URLs nobody fetched, with the pages that reference them
+  const unverifiedMedia = useMemo(() => {
+    const map = new Map<string, { property: string; pages: Set<string> }>();
+    for (const s of schemas) {
+      for (const m of s.unverifiedMedia) {
+        const entry = map.get(m.url) || { property: m.property, pages: new Set<string>() };
+        entry.pages.add(s.url);
+        map.set(m.url, entry);
+      }
+    }
+    return Array.from(map.entries()).map(([url, e]) => ({ url, property: e.property, pages: Array.from(e.pages) }));
   }, [schemas]);
 
+  const copyText = (text: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => toast({ title: "Copied", description: "JSON-LD copied to clipboard" }),
+      () => toast({ title: "Copy failed", description: "Clipboard access was denied", variant: "destructive" })
+    );
+  };
+
   const exportResults = (format: "json" | "csv" | "md") => {
     if (!filtered.length) return;
     let content = "";
     if (format === "json") {
-      content = JSON.stringify(filtered.map((s) => ({ url: s.url, type: s.type, valid: s.valid, warnings: s.warnings, data: s.data })), null, 2);
+      content = JSON.stringify(filtered.map((s) => ({ url: s.url, pages: s.pages, syntax: s.syntax, types: s.types, valid: s.valid, findings: s.findings, eligibility: s.eligibility, unverifiedMedia: s.unverifiedMedia, conflicts: s.conflicts, data: s.data, parseError: s.parseError })), null, 2);
     } else if (format === "csv") {
-      content = "URL,Type,Valid,Warnings\n" + filtered.map((s) => `"${s.url}","${s.type}",${s.valid},"${s.warnings.join("; ")}"`).join("\n");
+      content = "URL,Syntax,Type,Valid,Errors,Warnings,Findings,Eligible,Not Eligible\n" + filtered.map((s) => {
+        const findings = s.findings.map((f) => `[${f.severity}] ${f.rule}: ${f.message}`).join("; ");
+        const eligible = s.eligibility.filter((e) => e.eligible).map((e) => e.name).join("; ");
+        const ineligible = s.eligibility.filter((e) => !e.eligible).map((e) => e.name).join("; ");
+        const counts = `${countBySeverity(s.findings, "error")},${countBySeverity(s.findings, "warning")}`;
+        return `${csvCell(s.url)},${SYNTAX_LABELS[s.syntax]},${csvCell(s.types.join("; "))},${s.valid},${counts},${csvCell(findings)},${csvCell(eligible)},${csvCell(ineligible)}`;
+      }).join("\n");
     } else {
-      content = "# Schema Validation Report\n\n| URL | Type | Status | Warnings |\n|---|---|---|---|\n" + filtered.map((s) => {
+      const header = run ? `Run: ${run.urls.join(", ")} (${describeSettings(run.settings).join(", ")}), started ${new Date(run.startedAt).toISOString()}\n\n` : "";
+      content = "# Schema Validation Report\n\n" + header + "| URL | Syntax | Type | Status | Errors | Warnings | Rich Results |\n|---|---|---|---|---|---|---|\n" + filtered.map((s) => {
         let path = s.url;
         try { path = new URL(s.url).pathname; } catch {}
-        return `| ${path} | ${s.type} | ${s.valid ? "Valid" : "Issues"} | ${s.warnings.length} |`;
+        const richResults = s.eligibility.map((e) => `${e.name}: ${e.eligible ? "eligible" : "not eligible"}`).join(", ") || "-";
+        const counts = `${countBySeverity(s.findings, "error")} | ${countBySeverity(s.findings, "warning")}`;
+        return `| ${path} | ${SYNTAX_LABELS[s.syntax]} | ${s.types.join(", ")} | ${s.valid ? "Valid" : "Errors"} | ${counts} | ${richResults} |`;
+      }).join("\n");
+      const withFindings = filtered.filter((s) => s.findings.length);
+      if (withFindings.length) {
+        content += "\n\n## Findings\n\n| URL | Severity | Rule | Path | Message |\n|---|---|---|---|---|\n" + withFindings.flatMap((s) =>
+          s.findings.map((f) => `| ${s.url} | ${f.severity} | ${f.rule} | ${f.path || "-"} | ${f.message.replace(/\|/g, "\\|")} |`)
+        ).join("\n");
+      }
+    }
+    if (format === "md" && coverage.length) {
+      content += "\n\n## Template Coverage\n\n| Template | Pages | With Schema | Types | Pages Without Schema |\n|---|---|---|---|---|\n" + coverage.map((t) => {
+        const types = t.types.map((c) => `${c.type} ${Math.round((c.pages / t.pages.length) * 100)}%`).join(", ") || "-";
+        return `| ${t.pattern} | ${t.pages.length} | ${Math.round((t.withSchema / t.pages.length) * 100)}% | ${types} | ${t.withoutSchema.join("<br>") || "-"} |`;
       }).join("\n");
     }
+    if (format === "md" && crawlIssues.length) {
+      content += "\n\n## Crawl Issues\n\n| URL | Status | Issue | Error | Schema Items |\n|---|---|---|---|---|\n" + crawlIssues.map((i) =>
+        `| ${i.url} | ${i.status ?? "-"} | ${ISSUE_LABELS[i.kind].label} | ${(i.error || "-").replace(/\|/g, "\\|")} | ${issueSchemaCounts.get(pageKey(i.url)) || 0} |`
+      ).join("\n");
+    }
     const blob = new Blob([content], { type: "text/plain" });
     const a = document.createElement("a");
     a.href = URL.createObjectURL(blob);
@@ -236,7 +493,7 @@ export default function Validator() {
 
   return (
     <div className="flex flex-col flex-1">
-      <SearchBar setDataValues={setData} />
+      <SearchBar setDataValues={setData} onStatusChange={setCrawlStatus} onTargetsChange={setTargets} onRunChange={setRun} />
       <div className="flex-1 overflow-auto">
         {!data ? (
           <div className="flex flex-col items-center justify-center h-full gap-4 text-center px-4 py-20">
@@ -245,26 +502,54 @@ export default function Validator() {
             </svg>
             <h2 className="text-xl font-bold">Spider Schema Validator</h2>
             <p className="text-muted-foreground max-w-md">
-              Validate JSON-LD structured data on any website. Check Schema.org markup, see rich result eligibility, and fix errors.
+              Validate JSON-LD structured data on any website. Check Schema.org markup, see rich result eligibility, and fix errors. Use the file button to paste or upload markup and validate it without crawling.
             </p>
           </div>
-        ) : schemas.length === 0 ? (
+        ) : allSchemas.length === 0 && crawlIssues.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full gap-2 py-20 text-muted-foreground">
             <p>No structured data found.</p>
             <p className="text-sm">This site may not have JSON-LD or Schema.org markup.</p>
+            {pages.length > 0 && (
+              <div className="mt-2 max-h-48 overflow-y-auto text-left space-y-0.5">
+                {pages.map((u) => (
+                  <p key={u} className="font-mono text-[11px] truncate">{u}</p>
+                ))}
+              </div>
+            )}
           </div>
         ) : (
           <div className="max-w-5xl mx-auto p-4 space-y-4">
+            {run && (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{run.urls.slice(0, 3).join(", ")}{run.urls.length > 3 && ` +${run.urls.length - 3} more`}</span>
+                {" · "}{describeSettings(run.settings).join(" · ")}
+                {" · "}{new Date(run.startedAt).toLocaleString()}
+              </p>
+            )}
+            {crawlStatus === "cancelled" && run && (
+              <div className="rounded-lg border border-yellow-500/20 bg-yellow-500/10 px-3 py-2 text-xs text-yellow-400">
+                Partial results: the crawl was cancelled after {run.pageCount} page{run.pageCount === 1 ? "" : "s"}. Pages streamed so far have been saved.
+              </div>
+            )}
+            {crawlStatus === "failed" && run && run.pageCount > 0 && (
+              <div className="rounded-lg border border-red-500/20 bg-red-500/10 px-3 py-2 text-xs text-red-400">
+                Partial results: the crawl failed after {run.pageCount} page{run.pageCount === 1 ? "" : "s"}. Pages streamed so far have been saved.
+              </div>
+            )}
             {/* Summary cards */}
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="grid grid-cols-2 sm:grid-cols-6 gap-3">
               <div className="rounded-lg border bg-card p-3">
-                <p className="text-xs text-muted-foreground">Schema Items</p>
-                <p className="text-2xl font-bold text-[#3bde77]">{schemas.length}</p>
+                <p className="text-xs text-muted-foreground">{view === "entities" ? "Unique Entities" : "Schema Items"}</p>
+                <p className="text-2xl font-bold text-[#3bde77]">{items.length}</p>
               </div>
               <div className="rounded-lg border bg-card p-3">
                 <p className="text-xs text-muted-foreground">Valid</p>
                 <p className="text-2xl font-bold text-green-400">{validCount}</p>
               </div>
+              <div className="rounded-lg border bg-card p-3">
+                <p className="text-xs text-muted-foreground">With Errors</p>
+                <p className="text-2xl font-bold text-red-400">{errorCount}</p>
+              </div>
               <div className="rounded-lg border bg-card p-3">
                 <p className="text-xs text-muted-foreground">With Warnings</p>
                 <p className="text-2xl font-bold text-yellow-400">{warningCount}</p>
@@ -273,112 +558,492 @@ export default function Validator() {
                 <p className="text-xs text-muted-foreground">Pages Scanned</p>
                 <p className="text-2xl font-bold">{pageCount}</p>
               </div>
+              <button type="button" onClick={() => setTab("issues")} className="rounded-lg border bg-card p-3 text-left hover:border-red-500/30 transition-colors">
+                <p className="text-xs text-muted-foreground">Crawl Issues</p>
+                <p className={`text-2xl font-bold ${crawlIssues.length ? "text-red-400" : "text-muted-foreground"}`}>{crawlIssues.length}</p>
+              </button>
             </div>
 
-            {/* Type breakdown pills */}
-            {typeBreakdown.length > 0 && (
-              <div className="flex flex-wrap gap-2">
-                {typeBreakdown.map(([type, count]) => (
-                  <Badge key={type} variant="outline" className={`text-xs ${TYPE_COLORS[type] || "bg-muted text-muted-foreground border-muted"}`}>
-                    {type} ({count})
-                  </Badge>
+            {/* Report tabs */}
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex rounded-full border p-0.5">
+                {(["schema", "issues"] as ReportTab[]).map((t) => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`px-3 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                      tab === t ? "bg-[#3bde77]/15 text-[#3bde77]" : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {t === "schema" ? "Structured data" : `Crawl issues (${crawlIssues.length})`}
+                  </button>
                 ))}
               </div>
-            )}
-
-            {/* Filter + Export */}
-            <div className="flex flex-wrap items-center gap-2">
-              {(["all", "valid", "warnings"] as FilterStatus[]).map((f) => (
-                <button
-                  key={f}
-                  onClick={() => setFilter(f)}
-                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
-                    filter === f
-                      ? "bg-[#3bde77]/15 text-[#3bde77] border-[#3bde77]/30"
-                      : "bg-muted/50 text-muted-foreground border-transparent hover:border-muted-foreground/20"
-                  }`}
-                >
-                  {f === "all" ? `All (${schemas.length})` : f === "valid" ? `Valid (${validCount})` : `Warnings (${warningCount})`}
-                </button>
-              ))}
               <div className="flex-1" />
-              <div className="flex gap-1">
-                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportResults("json")}>JSON</Button>
-                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportResults("csv")}>CSV</Button>
-                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportResults("md")}>MD</Button>
-              </div>
+              {crawlIssues.length > 0 && (
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer select-none">
+                  <input type="checkbox" checked={excludeErrorPages} onChange={(e) => setExcludeErrorPages(e.currentTarget.checked)} className="accent-[#3bde77]" />
+                  Exclude schema on error pages
+                </label>
+              )}
             </div>
 
-            {/* Table */}
-            <div className="rounded-lg border overflow-hidden">
-              <table className="w-full text-sm">
-                <thead>
-                  <tr className="border-b bg-muted/30 text-xs text-muted-foreground">
-                    <th className="w-8 p-3" />
-                    <th className="text-left p-3 font-medium cursor-pointer hover:text-foreground select-none" onClick={() => toggleSort("url")}>
-                      Page <SortIcon active={sortKey === "url"} dir={sortDir} />
-                    </th>
-                    <th className="text-left p-3 font-medium cursor-pointer hover:text-foreground select-none" onClick={() => toggleSort("type")}>
-                      Type <SortIcon active={sortKey === "type"} dir={sortDir} />
-                    </th>
-                    <th className="text-center p-3 font-medium">Status</th>
-                    <th className="text-right p-3 font-medium cursor-pointer hover:text-foreground select-none" onClick={() => toggleSort("warnings")}>
-                      Warnings <SortIcon active={sortKey === "warnings"} dir={sortDir} />
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {filtered.map((schema, idx) => {
-                    let pathname = schema.url;
-                    try { pathname = new URL(schema.url).pathname; } catch {}
-                    const isExpanded = expanded.has(idx);
-                    return (
-                      <Fragment key={idx}>
-                        <tr className="border-b last:border-0 hover:bg-muted/20 transition-colors cursor-pointer" onClick={() => toggleExpand(idx)}>
-                          <td className="p-3 text-muted-foreground">
-                            <svg width="12" height="12" viewBox="0 0 12 12" className={`transition-transform ${isExpanded ? "rotate-90" : ""}`}>
-                              <path d="M4 2L8 6L4 10" fill="none" stroke="currentColor" strokeWidth="1.5" />
-                            </svg>
-                          </td>
-                          <td className="p-3 font-mono text-xs truncate max-w-[200px]" title={schema.url}>{pathname}</td>
-                          <td className="p-3">
-                            <Badge variant="outline" className={`text-xs ${TYPE_COLORS[schema.type] || "bg-muted text-muted-foreground border-muted"}`}>
-                              {schema.type}
-                            </Badge>
-                          </td>
-                          <td className="p-3 text-center">
-                            {schema.valid ? (
-                              <Badge variant="outline" className="text-xs bg-green-500/15 text-green-400 border-green-500/20">Valid</Badge>
-                            ) : (
-                              <Badge variant="outline" className="text-xs bg-yellow-500/15 text-yellow-400 border-yellow-500/20">Issues</Badge>
-                            )}
-                          </td>
-                          <td className="p-3 text-right font-mono text-xs">{schema.warnings.length}</td>
+            {tab === "issues" ? (
+              <div className="rounded-lg border overflow-hidden">
+                {crawlIssues.length ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/30 text-xs text-muted-foreground">
+                        <th className="text-left p-3 font-medium">Page</th>
+                        <th className="text-left p-3 font-medium">Status</th>
+                        <th className="text-left p-3 font-medium">Issue</th>
+                        <th className="text-right p-3 font-medium">Schema Items</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {crawlIssues.map((issue) => {
+                        const schemaItems = issueSchemaCounts.get(pageKey(issue.url)) || 0;
+                        return (
+                          <tr key={issue.url} className="border-b last:border-0 text-xs">
+                            <td className="p-3 font-mono truncate max-w-[320px]" title={issue.url}>{issue.url}</td>
+                            <td className={`p-3 font-mono ${ISSUE_LABELS[issue.kind].color}`}>{issue.status ?? "-"}</td>
+                            <td className="p-3">
+                              <span className={ISSUE_LABELS[issue.kind].color}>{ISSUE_LABELS[issue.kind].label}</span>
+                              {issue.error && <span className="block text-muted-foreground break-all">{issue.error}</span>}
+                            </td>
+                            <td
+                              className={`p-3 text-right ${schemaItems ? "text-yellow-400" : "text-muted-foreground"}`}
+                              title={schemaItems ? "Markup on an error page, often a soft-404 template" : undefined}
+                            >
+                              {schemaItems}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="p-3 text-xs text-muted-foreground">Every page was fetched successfully.</p>
+                )}
+              </div>
+            ) : schemas.length === 0 ? (
+              <p className="py-10 text-center text-sm text-muted-foreground">
+                {excludeErrorPages && allSchemas.length ? "All structured data found was on error pages." : "No structured data found."}
+              </p>
+            ) : (
+              <>
+                {/* Type breakdown pills */}
+                {typeBreakdown.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {typeBreakdown.map(([type, count]) => (
+                      <Badge key={type} variant="outline" className={`text-xs ${TYPE_COLORS[type] || "bg-muted text-muted-foreground border-muted"}`}>
+                        {type} ({count})
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {/* Rich result eligibility */}
+                {eligibilityBreakdown.length > 0 && (
+                  <div className="rounded-lg border overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b bg-muted/30 text-xs text-muted-foreground">
+                          <th className="text-left p-3 font-medium">Rich Result</th>
+                          <th className="text-right p-3 font-medium">Eligible Items</th>
+                          <th className="text-right p-3 font-medium">Not Eligible Items</th>
+                          <th className="text-right p-3 font-medium">Eligible Pages</th>
+                          <th className="text-right p-3 font-medium">Not Eligible Pages</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {eligibilityBreakdown.map((e) => (
+                          <tr key={e.profile} className="border-b last:border-0">
+                            <td className="p-3 text-xs font-medium">{e.name}</td>
+                            <td className="p-3 text-right font-mono text-xs text-green-400">{e.eligibleItems}</td>
+                            <td className="p-3 text-right font-mono text-xs text-red-400">{e.ineligibleItems}</td>
+                            <td className="p-3 text-right font-mono text-xs text-green-400">{e.eligiblePages}</td>
+                            <td className="p-3 text-right font-mono text-xs text-red-400">{e.ineligiblePages}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* Listed URLs */}
+                {listed.length > 0 && (
+                  <div className="rounded-lg border overflow-hidden">
+                    <p className="px-3 py-2 border-b bg-muted/30 text-xs font-medium text-muted-foreground">
+                      Listed URLs: {listed.length - listedProblems.length} of {listed.length} fetched with structured data
+                      <span className="font-normal">
+                        {(["failed", "not-fetched", "no-schema"] as ListedStatus[]).map((status) => {
+                          const count = listed.filter((l) => l.status === status).length;
+                          return count ? ` · ${count} ${LISTED_LABELS[status].label.toLowerCase()}` : "";
+                        })}
+                      </span>
+                    </p>
+                    {listedProblems.length > 0 && (
+                      <div className="divide-y max-h-48 overflow-y-auto">
+                        {listedProblems.map((l) => (
+                          <div key={l.url} className="px-3 py-1.5 flex items-center gap-2 text-xs">
+                            <span className={`shrink-0 w-32 ${LISTED_LABELS[l.status].color}`}>{LISTED_LABELS[l.status].label}</span>
+                            <span className="font-mono truncate flex-1">{l.url}</span>
+                            {l.detail && <span className="text-muted-foreground shrink-0">{l.detail}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Template coverage */}
+                {coverage.length > 0 && (
+                  <div className="rounded-lg border overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b bg-muted/30 text-xs text-muted-foreground">
+                          <th className="text-left p-3 font-medium">Template</th>
+                          <th className="text-right p-3 font-medium">Pages</th>
+                          <th className="text-right p-3 font-medium">With Schema</th>
+                          <th className="text-left p-3 font-medium">Types</th>
+                          <th className="text-left p-3 font-medium">Top Findings</th>
                         </tr>
-                        {isExpanded && (
-                          <tr className="border-b bg-muted/10">
-                            <td colSpan={5} className="p-4">
-                              {schema.warnings.length > 0 && (
-                                <div className="mb-3 space-y-1">
-                                  <p className="text-xs font-medium text-yellow-400 mb-1">Warnings:</p>
-                                  {schema.warnings.map((w, i) => (
-                                    <p key={i} className="text-xs text-muted-foreground pl-3 border-l-2 border-yellow-500/30">{w}</p>
+                      </thead>
+                      <tbody>
+                        {coverage.map((t) => {
+                          const percent = (n: number) => Math.round((n / t.pages.length) * 100);
+                          const isOpen = openTemplate === t.pattern;
+                          return (
+                            <Fragment key={t.pattern}>
+                              <tr
+                                className={`border-b last:border-0 ${t.withoutSchema.length ? "cursor-pointer hover:bg-muted/20" : ""}`}
+                                onClick={() => t.withoutSchema.length && setOpenTemplate(isOpen ? null : t.pattern)}
+                              >
+                                <td className="p-3 font-mono text-xs">{t.pattern}</td>
+                                <td className="p-3 text-right font-mono text-xs">{t.pages.length}</td>
+                                <td className={`p-3 text-right font-mono text-xs ${t.withSchema === t.pages.length ? "text-green-400" : t.withSchema ? "text-yellow-400" : "text-red-400"}`}>
+                                  {percent(t.withSchema)}%
+                                </td>
+                                <td className="p-3">
+                                  <div className="flex flex-wrap gap-1">
+                                    {t.types.map((c) => (
+                                      <Badge key={c.type} variant="outline" className={`text-xs ${TYPE_COLORS[c.type] || "bg-muted text-muted-foreground border-muted"}`}>
+                                        {c.type} {percent(c.pages)}%
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                </td>
+                                <td className="p-3 text-xs text-muted-foreground">
+                                  {t.topFindings.map((f) => `${f.rule} (${f.pages})`).join(", ") || "-"}
+                                </td>
+                              </tr>
+                              {isOpen && (
+                                <tr className="border-b bg-muted/10">
+                                  <td colSpan={5} className="p-3">
+                                    <p className="text-xs font-medium text-muted-foreground mb-1">No structured data on {t.withoutSchema.length} page{t.withoutSchema.length === 1 ? "" : "s"}:</p>
+                                    <div className="max-h-32 overflow-y-auto pl-3 border-l-2 border-red-500/30 space-y-0.5">
+                                      {t.withoutSchema.map((u) => (
+                                        <p key={u} className="font-mono text-[11px] text-muted-foreground truncate">{u}</p>
+                                      ))}
+                                    </div>
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* Site consistency */}
+                {siteEntities.length > 0 && (
+                  <div className="rounded-lg border overflow-hidden">
+                    <p className="px-3 py-2 border-b bg-muted/30 text-xs font-medium text-muted-foreground">Site consistency</p>
+                    <div className="divide-y">
+                      {siteEntities.map((e, i) => (
+                        <div key={i} className="p-3 space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline" className={`text-xs ${TYPE_COLORS[e.type] || "bg-muted text-muted-foreground border-muted"}`}>{e.type}</Badge>
+                            <span className="text-xs font-medium">{e.label}</span>
+                            <span className="text-xs text-muted-foreground">on {e.pages.length} page{e.pages.length === 1 ? "" : "s"}</span>
+                          </div>
+                          {e.conflicts.map((c) => (
+                            <div key={c.property} className="text-xs text-muted-foreground pl-3 border-l-2 border-yellow-500/30">
+                              <span className="text-yellow-400">Conflicting {c.property}:</span>{" "}
+                              {c.values.map((v) => `${v.value} (${v.pages.length} page${v.pages.length === 1 ? "" : "s"})`).join(" · ")}
+                            </div>
+                          ))}
+                          {e.missingFrom.length > 0 && (
+                            <div className="text-xs text-muted-foreground pl-3 border-l-2 border-red-500/30" title={e.missingFrom.join("\n")}>
+                              <span className="text-red-400">Missing from {e.missingFrom.length} page{e.missingFrom.length === 1 ? "" : "s"}:</span>{" "}
+                              {e.missingFrom.slice(0, 3).map((u) => { try { return new URL(u).pathname; } catch { return u; } }).join(", ")}
+                              {e.missingFrom.length > 3 && `, +${e.missingFrom.length - 3} more`}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Unverified media */}
+                {unverifiedMedia.length > 0 && (
+                  <div className="rounded-lg border overflow-hidden">
+                    <p className="px-3 py-2 border-b bg-muted/30 text-xs font-medium text-muted-foreground">
+                      Unverified media ({unverifiedMedia.length})
+                      <span className="font-normal">
+                        {assetCount ? " — not fetched in this crawl" : " — turn on Full Resources to fetch and check these"}
+                      </span>
+                    </p>
+                    <div className="divide-y max-h-48 overflow-y-auto">
+                      {unverifiedMedia.map((m) => (
+                        <div key={m.url} className="px-3 py-1.5 flex items-center gap-2 text-xs" title={m.pages.join("\n")}>
+                          <span className="font-mono text-[11px] text-muted-foreground/70 shrink-0">{m.property}</span>
+                          <span className="font-mono truncate flex-1">{m.url}</span>
+                          <span className="text-muted-foreground shrink-0">{m.pages.length} page{m.pages.length === 1 ? "" : "s"}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Filter + Export */}
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="flex rounded-full border p-0.5">
+                    {(["pages", "entities"] as ViewMode[]).map((v) => (
+                      <button
+                        key={v}
+                        onClick={() => { setView(v); setExpanded(new Set()); }}
+                        className={`px-3 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                          view === v ? "bg-[#3bde77]/15 text-[#3bde77]" : "text-muted-foreground hover:text-foreground"
+                        }`}
+                      >
+                        {v === "pages" ? "Per page" : `Unique entities (${uniqueEntities.length})`}
+                      </button>
+                    ))}
+                  </div>
+                  {(["all", "valid", "errors", "warnings", "eligible", "ineligible"] as FilterStatus[]).map((f) => (
+                    <button
+                      key={f}
+                      onClick={() => setFilter(f)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                        filter === f
+                          ? "bg-[#3bde77]/15 text-[#3bde77] border-[#3bde77]/30"
+                          : "bg-muted/50 text-muted-foreground border-transparent hover:border-muted-foreground/20"
+                      }`}
+                    >
+                      {f === "all" ? `All (${items.length})`
+                        : f === "valid" ? `Valid (${validCount})`
+                        : f === "errors" ? `Errors (${errorCount})`
+                        : f === "warnings" ? `Warnings (${warningCount})`
+                        : f === "eligible" ? `Eligible (${eligibleCount})`
+                        : `Not Eligible (${ineligibleCount})`}
+                    </button>
+                  ))}
+                  <Select value={syntaxFilter} onValueChange={(v: string) => setSyntaxFilter(v as Syntax | "all")}>
+                    <SelectTrigger className="h-7 w-[150px] text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All syntaxes</SelectItem>
+                      {syntaxBreakdown.map(([syntax, count]) => (
+                        <SelectItem key={syntax} value={syntax}>{SYNTAX_LABELS[syntax]} ({count})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {ruleBreakdown.length > 0 && (
+                    <Select value={ruleFilter} onValueChange={setRuleFilter}>
+                      <SelectTrigger className="h-7 w-[200px] text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All rules</SelectItem>
+                        {ruleBreakdown.map(([rule, count]) => (
+                          <SelectItem key={rule} value={rule} title={RULES[rule]?.description}>{rule} ({count})</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <div className="flex-1" />
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportResults("json")}>JSON</Button>
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportResults("csv")}>CSV</Button>
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportResults("md")}>MD</Button>
+                  </div>
+                </div>
+
+                {/* Table */}
+                <div className="rounded-lg border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/30 text-xs text-muted-foreground">
+                        <th className="w-8 p-3" />
+                        <th className="text-left p-3 font-medium cursor-pointer hover:text-foreground select-none" onClick={() => toggleSort("url")}>
+                          Page <SortIcon active={sortKey === "url"} dir={sortDir} />
+                        </th>
+                        <th className="text-left p-3 font-medium cursor-pointer hover:text-foreground select-none" onClick={() => toggleSort("type")}>
+                          Type <SortIcon active={sortKey === "type"} dir={sortDir} />
+                        </th>
+                        <th className="text-left p-3 font-medium">Syntax</th>
+                        <th className="text-center p-3 font-medium">Status</th>
+                        <th className="text-left p-3 font-medium">Rich Results</th>
+                        <th className="text-right p-3 font-medium cursor-pointer hover:text-foreground select-none" onClick={() => toggleSort("issues")}>
+                          Issues <SortIcon active={sortKey === "issues"} dir={sortDir} />
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filtered.map((schema, idx) => {
+                        let pathname = schema.url;
+                        try { pathname = new URL(schema.url).pathname; } catch {}
+                        const isExpanded = expanded.has(idx);
+                        return (
+                          <Fragment key={idx}>
+                            <tr className="border-b last:border-0 hover:bg-muted/20 transition-colors cursor-pointer" onClick={() => toggleExpand(idx)}>
+                              <td className="p-3 text-muted-foreground">
+                                <svg width="12" height="12" viewBox="0 0 12 12" className={`transition-transform ${isExpanded ? "rotate-90" : ""}`}>
+                                  <path d="M4 2L8 6L4 10" fill="none" stroke="currentColor" strokeWidth="1.5" />
+                                </svg>
+                              </td>
+                              <td className="p-3 font-mono text-xs truncate max-w-[200px]" title={schema.pages.join("\n")}>
+                                {pathname}
+                                {schema.pages.length > 1 && <span className="ml-1.5 text-muted-foreground">+{schema.pages.length - 1} page{schema.pages.length === 2 ? "" : "s"}</span>}
+                              </td>
+                              <td className="p-3">
+                                <div className="flex flex-wrap gap-1">
+                                  {schema.types.map((type) => (
+                                    <Badge key={type} variant="outline" className={`text-xs ${TYPE_COLORS[type] || "bg-muted text-muted-foreground border-muted"}`}>
+                                      {type}
+                                    </Badge>
                                   ))}
                                 </div>
-                              )}
-                              <p className="text-xs font-medium text-muted-foreground mb-1">Raw JSON-LD:</p>
-                              <pre className="text-xs bg-background/50 rounded border p-3 overflow-x-auto max-h-64 overflow-y-auto">
-                                {JSON.stringify(schema.data, null, 2)}
-                              </pre>
-                            </td>
-                          </tr>
-                        )}
-                      </Fragment>
-                    );
-                  })}
-                </tbody>
-              </table>
-            </div>
+                              </td>
+                              <td className="p-3 text-xs text-muted-foreground whitespace-nowrap">{SYNTAX_LABELS[schema.syntax]}</td>
+                              <td className="p-3 text-center">
+                                {schema.valid ? (
+                                  <Badge variant="outline" className="text-xs bg-green-500/15 text-green-400 border-green-500/20">Valid</Badge>
+                                ) : (
+                                  <Badge variant="outline" className={`text-xs ${SEVERITY_COLORS.error}`}>Errors</Badge>
+                                )}
+                              </td>
+                              <td className="p-3">
+                                <div className="flex flex-wrap gap-1">
+                                  {schema.eligibility.map((e) => (
+                                    <Badge
+                                      key={e.profile}
+                                      variant="outline"
+                                      title={e.eligible ? "Eligible" : `Missing: ${e.missingRequired.join(", ")}`}
+                                      className={`text-xs ${e.eligible ? "bg-green-500/15 text-green-400 border-green-500/20" : "bg-red-500/15 text-red-400 border-red-500/20"}`}
+                                    >
+                                      {e.name}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              </td>
+                              <td className="p-3 text-right font-mono text-xs whitespace-nowrap">
+                                <span className="text-red-400" title="Errors">{countBySeverity(schema.findings, "error")}</span>
+                                <span className="text-muted-foreground"> / </span>
+                                <span className="text-yellow-400" title="Warnings">{countBySeverity(schema.findings, "warning")}</span>
+                              </td>
+                            </tr>
+                            {isExpanded && (
+                              <tr className="border-b bg-muted/10">
+                                <td colSpan={7} className="p-4">
+                                  {schema.pages.length > 1 && (
+                                    <div className="mb-3">
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Found on {schema.pages.length} pages:</p>
+                                      <div className="max-h-32 overflow-y-auto pl-3 border-l-2 border-[#3bde77]/30 space-y-0.5">
+                                        {schema.pages.map((u) => (
+                                          <p key={u} className="font-mono text-[11px] text-muted-foreground truncate">{u}</p>
+                                        ))}
+                                      </div>
+                                    </div>
+                                  )}
+                                  {schema.conflicts && (
+                                    <div className="mb-3 space-y-1">
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Differences between pages:</p>
+                                      {schema.conflicts.map((c) => (
+                                        <div key={c.property} className="text-xs text-muted-foreground pl-3 border-l-2 border-yellow-500/30">
+                                          <span className="text-yellow-400">{c.property}:</span>{" "}
+                                          {c.values.map((v) => `${v.value} (${v.pages.length} page${v.pages.length === 1 ? "" : "s"})`).join(" · ")}
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {schema.findings.length > 0 && (
+                                    <div className="mb-3 space-y-1">
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Findings:</p>
+                                      {schema.findings.map((f, i) => (
+                                        <div key={i} className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground pl-3">
+                                          <Badge variant="outline" className={`text-[10px] uppercase ${SEVERITY_COLORS[f.severity]}`}>{f.severity}</Badge>
+                                          <span className="font-mono text-[11px] text-muted-foreground/70">{f.rule}</span>
+                                          <span>{f.message}</span>
+                                          {f.docs && (
+                                            <a href={f.docs} target="_blank" rel="noreferrer" className="text-[#3bde77] hover:underline" onClick={(e) => e.stopPropagation()}>
+                                              Docs
+                                            </a>
+                                          )}
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {schema.eligibility.length > 0 && (
+                                    <div className="mb-3 space-y-1">
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Rich result eligibility:</p>
+                                      {schema.eligibility.map((e) => (
+                                        <p key={e.profile} className={`text-xs text-muted-foreground pl-3 border-l-2 ${e.eligible ? "border-green-500/30" : "border-red-500/30"}`}>
+                                          <span className={e.eligible ? "text-green-400" : "text-red-400"}>{e.name}: {e.eligible ? "eligible" : "not eligible"}</span>
+                                          {e.missingRequired.length > 0 && ` — missing required ${e.missingRequired.join(", ")}`}
+                                        </p>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {schema.parseError ? (
+                                    <>
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Script block:</p>
+                                      <pre className="text-xs bg-background/50 rounded border p-3 overflow-x-auto max-h-64 overflow-y-auto">
+                                        {schema.parseError.source.split("\n").map((line, i) => (
+                                          <div key={i} className={i + 1 === schema.parseError!.line ? "bg-red-500/15 text-red-400" : undefined}>
+                                            <span className="select-none text-muted-foreground/50 mr-3">{String(i + 1).padStart(3, " ")}</span>
+                                            {line}
+                                          </div>
+                                        ))}
+                                      </pre>
+                                      {schema.parseError.repaired !== undefined && (
+                                        <>
+                                          <div className="flex items-center justify-between mt-3 mb-1">
+                                            <p className="text-xs font-medium text-green-400">Repaired version:</p>
+                                            <Button variant="outline" size="sm" className="h-6 text-xs" onClick={(e) => { e.stopPropagation(); copyText(JSON.stringify(schema.parseError!.repaired, null, 2)); }}>
+                                              Copy
+                                            </Button>
+                                          </div>
+                                          <pre className="text-xs bg-background/50 rounded border border-green-500/20 p-3 overflow-x-auto max-h-64 overflow-y-auto">
+                                            {JSON.stringify(schema.parseError.repaired, null, 2)}
+                                          </pre>
+                                        </>
+                                      )}
+                                    </>
+                                  ) : (
+                                    <div className={schema.findings.length > 0 ? "grid gap-4 lg:grid-cols-2" : undefined}>
+                                      <div className="min-w-0">
+                                        <p className="text-xs font-medium text-muted-foreground mb-1">{schema.syntax === "json-ld" ? "Raw JSON-LD:" : `${SYNTAX_LABELS[schema.syntax]} as JSON-LD:`}</p>
+                                        <pre className="text-xs bg-background/50 rounded border p-3 overflow-x-auto max-h-64 overflow-y-auto">
+                                          {JSON.stringify(schema.data, null, 2)}
+                                        </pre>
+                                      </div>
+                                      {schema.findings.length > 0 && <SuggestedFixPane data={schema.data} url={schema.url} onCopy={copyText} />}
+                                    </div>
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
           </div>
         )}
       </div>
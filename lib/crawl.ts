@@ -0,0 +1,169 @@
+import { pageKey } from "./url";
+
+// Crawl settings shared by the search bar, saved runs and the report header, and the crawl's own failures
+
+// "cancelled" runs keep the pages streamed before the user stopped them
+export type CrawlStatus = "running" | "complete" | "cancelled" | "failed";
+
+// "crawl" discovers pages from the start URLs; "sitemap" and "list" fetch exactly the listed pages
+export type RunMode = "crawl" | "sitemap" | "list";
+
+export interface CrawlScope {
+  // Path patterns where * matches anything; an empty include list allows every path
+  include: string[];
+  exclude: string[];
+  // 0 leaves the depth to the API default
+  depth: number;
+  subdomains: boolean;
+  queryStrings: "crawl" | "skip";
+}
+
+export interface CrawlSettings {
+  mode: RunMode;
+  limit: number;
+  returnFormat: string;
+  request: string;
+  fullResources: boolean;
+  scope: CrawlScope;
+}
+
+export interface CrawlPreset {
+  name: string;
+  settings: CrawlSettings;
+  updatedAt: number;
+}
+
+// Shape of an exported presets file
+export interface PresetFile {
+  version: 1;
+  presets: CrawlPreset[];
+}
+
+export const DEFAULT_SCOPE: CrawlScope = { include: [], exclude: [], depth: 0, subdomains: false, queryStrings: "crawl" };
+
+export const DEFAULT_SETTINGS: CrawlSettings = { mode: "crawl", limit: 50, returnFormat: "raw", request: "smart", fullResources: false, scope: DEFAULT_SCOPE };
+
+const MODE_LABELS: Record<RunMode, string> = { crawl: "Crawl", sitemap: "Sitemap", list: "URL list" };
+
+// "/blog/*" -> "/blog/.*"; everything except * is matched literally
+function toRegex(pattern: string): string {
+  return pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+}
+
+// One pattern per line or comma
+export function parsePatterns(text: string): string[] {
+  return text.split(/[\n,]+/).map((p) => p.trim()).filter(Boolean);
+}
+
+// Scope as /crawl request parameters
+export function scopeParams(scope: CrawlScope): Record<string, unknown> {
+  const blacklist = scope.exclude.map(toRegex);
+  if (scope.queryStrings === "skip") blacklist.push("\\?");
+  return {
+    ...(scope.include.length && { whitelist: scope.include.map(toRegex) }),
+    ...(blacklist.length && { blacklist }),
+    ...(scope.depth > 0 && { depth: scope.depth }),
+    ...(scope.subdomains && { subdomains: true }),
+  };
+}
+
+// Human-readable settings, enough to repeat the run
+export function describeSettings(settings: CrawlSettings): string[] {
+  const parts = [MODE_LABELS[settings.mode], `limit ${settings.limit}`, `${settings.request} requests`, `${settings.returnFormat} format`];
+  if (settings.fullResources) parts.push("full resources");
+  // Scope only shapes discovery crawls; sitemap and list runs fetch what they are given
+  if (settings.mode !== "crawl") return parts;
+  const { scope } = settings;
+  if (scope.depth > 0) parts.push(`depth ${scope.depth}`);
+  if (scope.subdomains) parts.push("subdomains");
+  if (scope.include.length) parts.push(`include ${scope.include.join(", ")}`);
+  if (scope.exclude.length) parts.push(`exclude ${scope.exclude.join(", ")}`);
+  if (scope.queryStrings === "skip") parts.push("skip query strings");
+  return parts;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && !!v.trim()) : [];
+}
+
+function pick<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+// Settings read from untrusted JSON, with anything missing or malformed falling back to the defaults
+export function toSettings(value: any): CrawlSettings {
+  const scope = value?.scope ?? {};
+  const limit = Number(value?.limit);
+  const depth = Number(scope.depth);
+  return {
+    mode: pick(value?.mode, ["crawl", "sitemap", "list"], DEFAULT_SETTINGS.mode),
+    limit: Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_SETTINGS.limit,
+    returnFormat: pick(value?.returnFormat, ["raw", "markdown", "text"], DEFAULT_SETTINGS.returnFormat),
+    request: pick(value?.request, ["http", "chrome", "smart"], DEFAULT_SETTINGS.request),
+    fullResources: value?.fullResources === true,
+    scope: {
+      include: strings(scope.include),
+      exclude: strings(scope.exclude),
+      depth: Number.isInteger(depth) && depth > 0 ? depth : 0,
+      subdomains: scope.subdomains === true,
+      queryStrings: pick(scope.queryStrings, ["crawl", "skip"], DEFAULT_SCOPE.queryStrings),
+    },
+  };
+}
+
+export function exportPresets(presets: CrawlPreset[]): string {
+  return JSON.stringify({ version: 1, presets } satisfies PresetFile, null, 2);
+}
+
+// Accepts an exported file or a bare array of presets; entries without a name are dropped
+export function importPresets(json: string): CrawlPreset[] {
+  const parsed = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.presets) ? parsed.presets : [];
+  return list
+    .filter((p: any) => typeof p?.name === "string" && p.name.trim())
+    .map((p: any) => ({ name: p.name.trim(), settings: toSettings(p.settings), updatedAt: Number(p.updatedAt) || Date.now() }));
+}
+
+export type IssueKind = "blocked" | "not-found" | "client-error" | "server-error" | "fetch-error";
+
+// A page the crawl returned with an HTTP error status or a fetch error
+export interface CrawlIssue {
+  url: string;
+  kind: IssueKind;
+  status?: number;
+  error?: string;
+}
+
+// Bot protection and rate limits; 999 is what some sites send to crawlers
+const BLOCKED_STATUSES = new Set([401, 403, 429, 999]);
+
+function issueKind(status: number | undefined, error: string | undefined): IssueKind {
+  if (status && BLOCKED_STATUSES.has(status)) return "blocked";
+  if (status === 404 || status === 410) return "not-found";
+  if (status && status >= 500) return "server-error";
+  if (status && status >= 400) return "client-error";
+  return error && /block|captcha|forbidden|denied/i.test(error) ? "blocked" : "fetch-error";
+}
+
+export function getPageIssue(page: { url: string; status?: number; error?: string }): CrawlIssue | undefined {
+  const status = typeof page.status === "number" && page.status > 0 ? page.status : undefined;
+  const error = page.error ? String(page.error) : undefined;
+  if (!(status && status >= 400) && !error) return;
+  return { url: page.url, kind: issueKind(status, error), ...(status && { status }), ...(error && { error }) };
+}
+
+// "HTTP 404" or the fetch error, for messages that mention the failed page
+export function describeIssue(issue: CrawlIssue): string {
+  return issue.status && issue.status >= 400 ? `HTTP ${issue.status}` : `an error (${issue.error})`;
+}
+
+// One issue per failed URL, in crawl order
+export function getCrawlIssues(pages: any[]): CrawlIssue[] {
+  const issues = new Map<string, CrawlIssue>();
+  for (const page of pages) {
+    if (!page?.url) continue;
+    const issue = getPageIssue(page);
+    if (issue && !issues.has(pageKey(page.url))) issues.set(pageKey(page.url), issue);
+  }
+  return Array.from(issues.values());
+}
@@ -0,0 +1,85 @@
+// Builds crawl-shaped pages from pasted markup or local files, so they run through the same pipeline as a crawl
+
+export interface OfflinePage {
+  url: string;
+  content?: string;
+  json_data?: any;
+  status?: number;
+  error?: string;
+}
+
+export const DEFAULT_OFFLINE_URL = "https://example.com/";
+
+// A line of a saved /crawl stream, as opposed to a JSON-LD object
+function isCrawlPage(value: any): boolean {
+  return !!value && typeof value === "object" && typeof value.url === "string" && ("content" in value || "json_data" in value || "status" in value);
+}
+
+function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return base;
+  }
+}
+
+function canonicalUrl(html: string, base: string): string | undefined {
+  const link = html.match(/<link\b[^>]*\brel=["']?canonical["']?[^>]*>/i)?.[0];
+  const href = link?.match(/\bhref=["']([^"']+)["']/i)?.[1];
+  return href ? resolveUrl(href, base) : undefined;
+}
+
+// Wrapped in script tags so broken JSON gets the same diagnosis as on a crawled page
+function jsonLdPage(sources: string[], url: string): OfflinePage {
+  const scripts = sources.map((s) => `<script type="application/ld+json">${s.replace(/<\/script/gi, "<\\/script")}</script>`);
+  return { url, content: scripts.join("\n"), status: 200 };
+}
+
+function htmlPage(html: string, url: string): OfflinePage {
+  return { url: canonicalUrl(html, url) || url, content: html, status: 200 };
+}
+
+function fromJson(value: any, text: string, url: string): OfflinePage[] {
+  if (Array.isArray(value) && value.length && value.every(isCrawlPage)) return value;
+  if (isCrawlPage(value)) return [value];
+  return [jsonLdPage([text], url)];
+}
+
+// Pasted HTML, a JSON-LD block, a JSON array of crawled pages or JSONL (crawl export or one block per line)
+export function parseOfflineInput(text: string, url = DEFAULT_OFFLINE_URL): OfflinePage[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("<")) return [htmlPage(trimmed, url)];
+  try {
+    return fromJson(JSON.parse(trimmed), trimmed, url);
+  } catch {}
+
+  const lines = trimmed.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (lines.length > 1) {
+    const parsed: any[] = [];
+    for (const line of lines) {
+      try {
+        parsed.push(JSON.parse(line));
+      } catch {
+        break;
+      }
+    }
+    if (parsed.length === lines.length) {
+      return parsed.every(isCrawlPage) ? parsed : [jsonLdPage(lines, url)];
+    }
+  }
+  // Not valid JSON in any form: validate it as a broken JSON-LD block
+  return [jsonLdPage([trimmed], url)];
+}
+
+// .html files become pages at their canonical URL (or their file name under `base`); anything else is parsed as pasted text
+export async function parseOfflineFiles(files: File[], base = DEFAULT_OFFLINE_URL): Promise<OfflinePage[]> {
+  const pages: OfflinePage[] = [];
+  for (const file of files) {
+    const text = await file.text();
+    const url = resolveUrl(encodeURIComponent(file.name), base);
+    if (/\.html?$/i.test(file.name)) pages.push(htmlPage(text, url));
+    else pages.push(...parseOfflineInput(text, url));
+  }
+  return pages;
+}
@@ -0,0 +1,66 @@
+import { hasStructuredData } from "./schema/extract";
+
+// No page for this long means the crawl is probably stuck rather than slow
+export const STALL_MS = 30_000;
+
+const RECENT_LIMIT = 8;
+
+export interface RecentPage {
+  // Position in the stream, unique even when a URL repeats within the same millisecond
+  seq: number;
+  url: string;
+  status: string;
+  schema: boolean;
+  at: number;
+}
+
+export interface CrawlProgress {
+  received: number;
+  // Crawl limit, or the number of listed pages for sitemap and list runs
+  expected: number;
+  startedAt: number;
+  lastPageAt?: number;
+  // Keyed by HTTP status code, "error" for pages that failed without one, "unknown" when the API sent neither
+  statuses: Record<string, number>;
+  withSchema: number;
+  // Newest first
+  recent: RecentPage[];
+}
+
+export function startProgress(expected: number): CrawlProgress {
+  return { received: 0, expected, startedAt: Date.now(), statuses: {}, withSchema: 0, recent: [] };
+}
+
+function statusOf(page: any): string {
+  if (typeof page?.status === "number" && page.status > 0) return String(page.status);
+  return page?.error ? "error" : "unknown";
+}
+
+// A new snapshot with one more streamed page counted
+export function recordPage(progress: CrawlProgress, page: any): CrawlProgress {
+  const status = statusOf(page);
+  const schema = typeof page?.content === "string" && hasStructuredData(page.content);
+  const at = Date.now();
+  return {
+    ...progress,
+    received: progress.received + 1,
+    lastPageAt: at,
+    statuses: { ...progress.statuses, [status]: (progress.statuses[status] || 0) + 1 },
+    withSchema: progress.withSchema + (schema ? 1 : 0),
+    recent: [{ seq: progress.received + 1, url: String(page?.url || ""), status, schema, at }, ...progress.recent].slice(0, RECENT_LIMIT),
+  };
+}
+
+export function pagesPerSecond(progress: CrawlProgress, now = Date.now()): number {
+  const seconds = (now - progress.startedAt) / 1000;
+  return seconds > 0 ? progress.received / seconds : 0;
+}
+
+// Time since the last page, or since the start when nothing has arrived yet
+export function idleFor(progress: CrawlProgress, now = Date.now()): number {
+  return now - (progress.lastPageAt ?? progress.startedAt);
+}
+
+export function isStalled(progress: CrawlProgress, now = Date.now()): boolean {
+  return idleFor(progress, now) > STALL_MS;
+}
@@ -0,0 +1,91 @@
+import { hostOf, pageKey, parseUrl, trimPath } from "../url";
+import { DEFAULT_CONTEXT, normalizeTypes } from "./context";
+import { finding, type Finding } from "./findings";
+import { isNode, type Node } from "./node";
+import { joinPath } from "./path";
+import { RICH_RESULT_PROFILES } from "./profiles";
+import { isSubTypeOf } from "./vocabulary";
+
+const DOCS = RICH_RESULT_PROFILES.find((p) => p.id === "breadcrumb")?.docs;
+
+function isType(node: Node, type: string): boolean {
+  return normalizeTypes(node["@type"], DEFAULT_CONTEXT).some((t) => isSubTypeOf(t, type));
+}
+
+function itemUrl(item: any): string | undefined {
+  if (typeof item === "string") return item;
+  if (!isNode(item)) return undefined;
+  const url = item["@id"] ?? item.url;
+  return typeof url === "string" ? url : undefined;
+}
+
+function checkList(list: Node, path: string, pageUrl: string, errorPages: Map<string, string>, findings: Finding[]) {
+  const add = (rule: string, message: string, at: string) => findings.push(finding(rule, message, at, DOCS));
+  const listPath = joinPath(path, "itemListElement");
+  const raw = list.itemListElement;
+  const entries = (Array.isArray(raw) ? raw : raw === undefined ? [] : [raw])
+    .map((item, i) => ({ item, at: Array.isArray(raw) ? joinPath(listPath, i) : listPath }))
+    .filter(({ item }) => isNode(item));
+  if (!entries.length) return;
+
+  // Google orders the trail by position, so positions must read 1, 2, 3, ...
+  const positions = entries.map(({ item }) => Number(item.position));
+  entries.forEach(({ item, at }, i) => {
+    if (Number.isInteger(positions[i]) && positions[i] >= 1) return;
+    add("breadcrumb-position", `Breadcrumb ${at} has no valid position (got ${JSON.stringify(item.position)})`, joinPath(at, "position"));
+  });
+  const valid = positions.filter((p) => Number.isInteger(p) && p >= 1).sort((a, b) => a - b);
+  if (valid.length === entries.length && valid.some((p, i) => p !== i + 1)) {
+    add("breadcrumb-position", `Breadcrumb positions should run 1 to ${entries.length} without gaps or repeats (got ${valid.join(", ")})`, listPath);
+  }
+
+  const ordered = entries.map((e, i) => ({ ...e, position: positions[i] })).sort((a, b) => (a.position || 0) - (b.position || 0));
+  const page = parseUrl(pageUrl, pageUrl);
+  ordered.forEach(({ item, at }, i) => {
+    const last = i === ordered.length - 1;
+    const name = item.name ?? (isNode(item.item) ? item.item.name : undefined);
+    if (typeof name !== "string" || !name.trim()) add("breadcrumb-name", `Breadcrumb ${at} has no name`, joinPath(at, "name"));
+
+    const target = itemUrl(item.item);
+    if (!target) {
+      if (!last) add("breadcrumb-item", `Breadcrumb ${at} needs an item URL; only the last entry may omit it`, joinPath(at, "item"));
+      return;
+    }
+    const url = parseUrl(target, pageUrl);
+    if (!url || !page) return;
+    if (hostOf(url) !== hostOf(page)) {
+      add("breadcrumb-host", `Breadcrumb ${at} points to ${url.hostname}, not ${page.hostname}`, joinPath(at, "item"));
+      return;
+    }
+    const error = errorPages.get(pageKey(url.href));
+    if (error) add("breadcrumb-broken-target", `Breadcrumb ${at} points to ${url.href}, which returned ${error} in this crawl`, joinPath(at, "item"));
+
+    const trail = trimPath(url.pathname);
+    const current = trimPath(page.pathname);
+    if (last) {
+      if (trail !== current) add("breadcrumb-hierarchy", `Last breadcrumb ${at} points to ${url.pathname} rather than the current page ${page.pathname}`, joinPath(at, "item"));
+    } else if (trail !== "/" && current !== trail && !current.startsWith(`${trail}/`)) {
+      add("breadcrumb-hierarchy", `Breadcrumb ${at} (${url.pathname}) is not a parent of the page path ${page.pathname}`, joinPath(at, "item"));
+    }
+  });
+}
+
+function walk(node: Node, path: string, pageUrl: string, errorPages: Map<string, string>, seen: Set<object>, findings: Finding[]) {
+  if (seen.has(node)) return;
+  seen.add(node);
+  if (isType(node, "BreadcrumbList")) checkList(node, path, pageUrl, errorPages, findings);
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith("@")) continue;
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((v, i) => {
+      if (isNode(v)) walk(v, Array.isArray(value) ? joinPath(joinPath(path, key), i) : joinPath(path, key), pageUrl, errorPages, seen, findings);
+    });
+  }
+}
+
+// Structure of every BreadcrumbList in an entity, checked against the page URL and crawl errors keyed by pageKey
+export function checkBreadcrumbs(entity: Record<string, any>, pageUrl: string, errorPages: Map<string, string>, standalone: object[] = []): Finding[] {
+  const findings: Finding[] = [];
+  walk(entity, "", pageUrl, errorPages, new Set(standalone.filter((s) => s !== entity)), findings);
+  return findings;
+}
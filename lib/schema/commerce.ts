@@ -0,0 +1,194 @@
+import { DEFAULT_CONTEXT, normalizeTypes } from "./context";
+import { finding, type Finding } from "./findings";
+import { isNode, type Node } from "./node";
+import { joinPath } from "./path";
+import { hasValue, RICH_RESULT_PROFILES } from "./profiles";
+import { isIsoDate, isIsoDateTime } from "./values";
+import { getEnumerationMembers, getProperty, isSubTypeOf, localName } from "./vocabulary";
+
+const DOCS = RICH_RESULT_PROFILES.find((p) => p.id === "merchant-listing")?.docs;
+
+// Enumeration-valued commerce properties that Google reads only as full schema.org URLs
+const ENUM_PROPERTIES: Record<string, string> = {
+  availability: "ItemAvailability",
+  itemCondition: "OfferItemCondition",
+  returnPolicyCategory: "MerchantReturnEnumeration",
+  returnMethod: "ReturnMethodEnumeration",
+  returnFees: "ReturnFeesEnumeration",
+};
+
+type Report = (rule: string, message: string, at: string) => void;
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+function isType(node: Node, type: string): boolean {
+  return normalizeTypes(node["@type"], DEFAULT_CONTEXT).some((t) => isSubTypeOf(t, type));
+}
+
+function toNumber(value: any): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const n = Number(value.trim());
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Each entry of an array-or-single property, with the path it sits at
+function entries(node: Node, key: string, path: string): { value: any; at: string }[] {
+  const value = node[key];
+  if (Array.isArray(value)) return value.map((v, i) => ({ value: v, at: joinPath(joinPath(path, key), i) }));
+  return value === undefined ? [] : [{ value, at: joinPath(path, key) }];
+}
+
+function today(now: Date): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function checkEnumUrls(node: Node, path: string, report: Report) {
+  for (const [key, enumeration] of Object.entries(ENUM_PROPERTIES)) {
+    for (const { value, at } of entries(node, key, path)) {
+      if (typeof value !== "string" || /^https?:\/\/schema\.org\//.test(value)) continue;
+      const member = localName(value.trim());
+      // Unknown members are already reported as invalid values
+      if (!getEnumerationMembers(enumeration)?.includes(member)) continue;
+      report("commerce-enum-url", `Use the full URL https://schema.org/${member} for ${at} instead of "${value}"`, at);
+    }
+  }
+}
+
+function checkOffer(node: Node, path: string, now: Date, report: Report) {
+  const aggregate = isType(node, "AggregateOffer");
+  const specs = asArray(node.priceSpecification).filter(isNode);
+
+  if (aggregate) {
+    if (!hasValue(node, "lowPrice")) report("commerce-price", `AggregateOffer ${path || "item"} needs lowPrice`, joinPath(path, "lowPrice"));
+    const low = toNumber(node.lowPrice);
+    const high = toNumber(node.highPrice);
+    if (low !== undefined && high !== undefined && low > high) {
+      report("commerce-price-range", `${joinPath(path, "lowPrice")} (${low}) is above ${joinPath(path, "highPrice")} (${high})`, joinPath(path, "lowPrice"));
+    }
+  } else if (!hasValue(node, "price") && !specs.some((s) => hasValue(s, "price"))) {
+    report("commerce-price", `Offer ${path || "item"} needs a price or priceSpecification.price`, joinPath(path, "price"));
+  }
+
+  const priced = ["price", "lowPrice", "highPrice"].some((k) => hasValue(node, k)) || specs.some((s) => hasValue(s, "price"));
+  if (priced && !hasValue(node, "priceCurrency") && !specs.some((s) => hasValue(s, "priceCurrency"))) {
+    report("commerce-currency", `${path || "Offer"} has a price but no priceCurrency`, joinPath(path, "priceCurrency"));
+  }
+
+  for (const { value, at } of entries(node, "priceValidUntil", path)) {
+    if (typeof value !== "string" || !(isIsoDate(value) || isIsoDateTime(value))) continue;
+    if (value.slice(0, 10) < today(now)) report("commerce-expired", `${at} (${value}) is in the past, so the price is treated as expired`, at);
+  }
+}
+
+function checkShipping(node: Node, path: string, report: Report) {
+  if (!hasValue(node, "shippingDestination")) {
+    report("commerce-shipping", `${path} needs shippingDestination with an addressCountry`, joinPath(path, "shippingDestination"));
+  }
+  for (const { value, at } of entries(node, "shippingDestination", path)) {
+    if (isNode(value) && !hasValue(value, "addressCountry")) report("commerce-shipping", `${at} needs addressCountry`, joinPath(at, "addressCountry"));
+  }
+  const doesNotShip = node.doesNotShip === true || node.doesNotShip === "true";
+  if (!doesNotShip && !hasValue(node, "shippingRate")) {
+    report("commerce-shipping", `${path} needs shippingRate (or doesNotShip)`, joinPath(path, "shippingRate"));
+  }
+  for (const { value, at } of entries(node, "shippingRate", path)) {
+    if (!isNode(value)) continue;
+    if (!hasValue(value, "value") && !hasValue(value, "maxValue")) report("commerce-shipping", `${at} needs a value`, joinPath(at, "value"));
+    if (!hasValue(value, "currency")) report("commerce-shipping", `${at} needs a currency`, joinPath(at, "currency"));
+  }
+  for (const { value, at } of entries(node, "deliveryTime", path)) {
+    if (!isNode(value)) continue;
+    for (const key of ["handlingTime", "transitTime"]) {
+      const time = value[key];
+      if (!isNode(time)) {
+        report("commerce-shipping", `${at} needs ${key} with minValue and maxValue in days`, joinPath(at, key));
+        continue;
+      }
+      const min = toNumber(time.minValue);
+      const max = toNumber(time.maxValue);
+      if (min === undefined || max === undefined) report("commerce-shipping", `${joinPath(at, key)} needs numeric minValue and maxValue`, joinPath(at, key));
+      else if (min > max) report("commerce-shipping", `${joinPath(at, key)} minValue (${min}) is above maxValue (${max})`, joinPath(at, key));
+    }
+  }
+}
+
+function checkReturnPolicy(node: Node, path: string, report: Report) {
+  if (!hasValue(node, "applicableCountry")) report("commerce-return-policy", `${path} needs applicableCountry`, joinPath(path, "applicableCountry"));
+  if (!hasValue(node, "returnPolicyCategory")) {
+    report("commerce-return-policy", `${path} needs returnPolicyCategory`, joinPath(path, "returnPolicyCategory"));
+    return;
+  }
+  const category = localName(String(node.returnPolicyCategory));
+  if (category === "MerchantReturnFiniteReturnWindow" && !hasValue(node, "merchantReturnDays")) {
+    report("commerce-return-policy", `${path} has a finite return window but no merchantReturnDays`, joinPath(path, "merchantReturnDays"));
+  }
+  if (category === "MerchantReturnNotPermitted") return;
+  if (!hasValue(node, "returnMethod")) report("commerce-return-details", `${path} should say how items are returned (returnMethod)`, joinPath(path, "returnMethod"));
+  if (!hasValue(node, "returnFees")) report("commerce-return-details", `${path} should say who pays for returns (returnFees)`, joinPath(path, "returnFees"));
+  if (localName(String(node.returnFees ?? "")) === "ReturnShippingFees" && !hasValue(node, "returnShippingFeesAmount")) {
+    report("commerce-return-policy", `${path} charges return shipping fees but has no returnShippingFeesAmount`, joinPath(path, "returnShippingFeesAmount"));
+  }
+}
+
+// A variant's values for the properties a group varies by, as one comparable key
+function variantKey(variant: Node, varies: string[]): string {
+  return varies.map((p) => JSON.stringify(variant[p] ?? null)).join("|");
+}
+
+function checkProductGroup(node: Node, path: string, report: Report) {
+  if (!hasValue(node, "productGroupID")) report("commerce-variant", `ProductGroup ${path || "item"} should have a productGroupID`, joinPath(path, "productGroupID"));
+  const varies = asArray(node.variesBy).filter((v) => typeof v === "string").map((v: string) => localName(v.trim()));
+  for (const prop of varies) {
+    if (!getProperty(prop)) report("commerce-variant", `variesBy value "${prop}" is not a Schema.org property`, joinPath(path, "variesBy"));
+  }
+  const variants = entries(node, "hasVariant", path).filter(({ value }) => isNode(value));
+  if (!variants.length) {
+    report("commerce-variant", `ProductGroup ${path || "item"} lists no variants in hasVariant`, joinPath(path, "hasVariant"));
+    return;
+  }
+  const seen = new Map<string, string>();
+  for (const { value: variant, at } of variants) {
+    if (!isType(variant, "Product")) report("commerce-variant", `Variant ${at} should be a Product`, at);
+    for (const prop of varies.filter(getProperty)) {
+      if (!hasValue(variant, prop)) report("commerce-variant", `Variant ${at} has no ${prop}, which the group varies by`, joinPath(at, prop));
+    }
+    if (varies.length) {
+      const key = variantKey(variant, varies);
+      const other = seen.get(key);
+      if (other) report("commerce-variant", `Variant ${at} repeats the ${varies.join("/")} of ${other}`, at);
+      else seen.set(key, at);
+    }
+    const parent = variant.isVariantOf;
+    if (isNode(parent) && parent !== node && (!node["@id"] || parent["@id"] !== node["@id"])) {
+      report("commerce-variant", `Variant ${at} names a different ProductGroup in isVariantOf`, joinPath(at, "isVariantOf"));
+    }
+  }
+}
+
+function walk(node: Node, path: string, now: Date, seen: Set<object>, findings: Finding[]) {
+  if (seen.has(node)) return;
+  seen.add(node);
+  const report: Report = (rule, message, at) => findings.push(finding(rule, message, at, DOCS));
+  checkEnumUrls(node, path, report);
+  if (isType(node, "Offer")) checkOffer(node, path, now, report);
+  if (isType(node, "OfferShippingDetails")) checkShipping(node, path, report);
+  if (isType(node, "MerchantReturnPolicy")) checkReturnPolicy(node, path, report);
+  if (isType(node, "ProductGroup")) checkProductGroup(node, path, report);
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith("@")) continue;
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((v, i) => {
+      if (isNode(v)) walk(v, Array.isArray(value) ? joinPath(joinPath(path, key), i) : joinPath(path, key), now, seen, findings);
+    });
+  }
+}
+
+// Merchant listing rules for offers, shipping, returns and variant groups anywhere in an entity
+export function checkCommerce(entity: Record<string, any>, standalone: object[] = [], now = new Date()): Finding[] {
+  const findings: Finding[] = [];
+  walk(entity, "", now, new Set(standalone.filter((s) => s !== entity)), findings);
+  return findings;
+}
@@ -0,0 +1,74 @@
+import { localName } from "./vocabulary";
+
+export interface ContextInfo {
+  vocab?: string;
+  terms: Record<string, string>;
+}
+
+const SCHEMA_IRI = /^https?:\/\/schema\.org\/?$/;
+
+// Nodes without any @context are read as Schema.org, which is what consumers assume
+export const DEFAULT_CONTEXT: ContextInfo = { vocab: "https://schema.org/", terms: {} };
+
+export function isSchemaIri(iri: string): boolean {
+  return /^https?:\/\/schema\.org\//.test(iri);
+}
+
+// Fold a @context value (string, object or array of both) into the context it extends
+export function parseContext(value: any, parent: ContextInfo = DEFAULT_CONTEXT): ContextInfo {
+  if (value === undefined) return parent;
+  if (value === null) return { terms: {} };
+  if (Array.isArray(value)) return value.reduce((ctx, v) => parseContext(v, ctx), parent);
+  if (typeof value === "string") {
+    return SCHEMA_IRI.test(value.trim()) ? { ...parent, vocab: "https://schema.org/" } : parent;
+  }
+  if (typeof value !== "object") return parent;
+  const next: ContextInfo = { vocab: parent.vocab, terms: { ...parent.terms } };
+  for (const [key, def] of Object.entries(value)) {
+    if (key === "@vocab") next.vocab = typeof def === "string" ? def : undefined;
+    else if (key.startsWith("@")) continue;
+    else if (typeof def === "string") next.terms[key] = def;
+    else if (def && typeof def === "object" && typeof (def as any)["@id"] === "string") next.terms[key] = (def as any)["@id"];
+  }
+  return next;
+}
+
+// Expand a term or compact IRI to an absolute IRI, as far as the context allows
+export function expandIri(term: string, context: ContextInfo, depth = 0): string {
+  if (/^https?:\/\//.test(term)) return term;
+  const alias = context.terms[term];
+  if (alias !== undefined && alias !== term && depth < 8) return expandIri(alias, context, depth + 1);
+  const colon = term.indexOf(":");
+  if (colon > 0) {
+    const prefix = context.terms[term.slice(0, colon)];
+    if (prefix !== undefined) return prefix + term.slice(colon + 1);
+    if (term.slice(0, colon) === "schema") return `https://schema.org/${term.slice(colon + 1)}`;
+    return term;
+  }
+  return context.vocab ? context.vocab + term : term;
+}
+
+// Schema.org types are returned by local name, anything from another vocabulary as its full IRI
+export function normalizeType(term: string, context: ContextInfo): string {
+  const iri = expandIri(term.trim(), context);
+  return isSchemaIri(iri) ? localName(iri) : iri;
+}
+
+export function normalizeTypes(value: any, context: ContextInfo): string[] {
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  const types: string[] = [];
+  for (const v of values) {
+    if (typeof v !== "string" || !v.trim()) continue;
+    const type = normalizeType(v, context);
+    if (!types.includes(type)) types.push(type);
+  }
+  return types;
+}
+
+export function isForeignType(type: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(type);
+}
+
+export function getNodeTypes(data: Record<string, any>, parent: ContextInfo = DEFAULT_CONTEXT): string[] {
+  return normalizeTypes(data?.["@type"], parseContext(data?.["@context"], parent));
+}
@@ -0,0 +1,105 @@
+import type { Finding } from "./findings";
+
+export interface TemplateCoverage {
+  pattern: string;
+  pages: string[];
+  // Pages with at least one structured data item
+  withSchema: number;
+  types: { type: string; pages: number }[];
+  // Rules that fired most often, counted once per page
+  topFindings: { rule: string; pages: number }[];
+  withoutSchema: string[];
+}
+
+interface CoverageItem {
+  url: string;
+  types: string[];
+  findings: Finding[];
+}
+
+// Segments a template fills in: numeric IDs, hashes and UUIDs
+const VARIABLE_SEGMENT = /^(\d+|[0-9a-f]{8,}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+// Types that mark a broken block rather than structured data
+const NOT_SCHEMA = ["Invalid JSON"];
+
+const TOP_FINDINGS = 3;
+
+interface PathEntry {
+  url: string;
+  host: string;
+  segments: string[];
+}
+
+function toEntry(url: string): PathEntry | undefined {
+  try {
+    const parsed = new URL(url);
+    return { url, host: parsed.hostname.replace(/^www\./, ""), segments: parsed.pathname.split("/").filter(Boolean) };
+  } catch {
+    return undefined;
+  }
+}
+
+// A segment stays literal when several pages share it and it does not look like an ID;
+// everything else at that depth is folded into one "*" branch and grouped further together
+function group(entries: PathEntry[], depth: number, prefix: string, into: Map<string, string>) {
+  const byChild = new Map<string, PathEntry[]>();
+  for (const entry of entries) {
+    if (entry.segments.length <= depth) {
+      into.set(entry.url, prefix || "/");
+      continue;
+    }
+    const segment = entry.segments[depth];
+    byChild.set(segment, [...(byChild.get(segment) || []), entry]);
+  }
+  const wildcard: PathEntry[] = [];
+  byChild.forEach((children, segment) => {
+    if (children.length >= 2 && !VARIABLE_SEGMENT.test(segment)) group(children, depth + 1, `${prefix}/${segment}`, into);
+    else wildcard.push(...children);
+  });
+  if (wildcard.length) group(wildcard, depth + 1, `${prefix}/*`, into);
+}
+
+// URL -> inferred path pattern such as "/product/*"; patterns carry the host when the crawl spans several
+export function inferTemplates(urls: string[]): Map<string, string> {
+  const entries = Array.from(new Set(urls)).map(toEntry).filter((e): e is PathEntry => !!e);
+  const hosts = new Set(entries.map((e) => e.host));
+  const patterns = new Map<string, string>();
+  for (const host of hosts) {
+    group(entries.filter((e) => e.host === host), 0, hosts.size > 1 ? host : "", patterns);
+  }
+  return patterns;
+}
+
+// Structured data coverage per template, worst covered first
+export function analyzeCoverage(pages: string[], items: CoverageItem[]): TemplateCoverage[] {
+  const templates = inferTemplates(pages);
+  const byPage = new Map<string, CoverageItem[]>();
+  for (const item of items) byPage.set(item.url, [...(byPage.get(item.url) || []), item]);
+
+  const byPattern = new Map<string, string[]>();
+  templates.forEach((pattern, url) => byPattern.set(pattern, [...(byPattern.get(pattern) || []), url]));
+
+  const report: TemplateCoverage[] = [];
+  byPattern.forEach((urls, pattern) => {
+    const types = new Map<string, number>();
+    const rules = new Map<string, number>();
+    const withoutSchema: string[] = [];
+    for (const url of urls) {
+      const pageItems = byPage.get(url) || [];
+      const pageTypes = new Set(pageItems.flatMap((i) => i.types).filter((t) => !NOT_SCHEMA.includes(t)));
+      if (!pageTypes.size) withoutSchema.push(url);
+      pageTypes.forEach((t) => types.set(t, (types.get(t) || 0) + 1));
+      new Set(pageItems.flatMap((i) => i.findings.map((f) => f.rule))).forEach((r) => rules.set(r, (rules.get(r) || 0) + 1));
+    }
+    report.push({
+      pattern,
+      pages: urls,
+      withSchema: urls.length - withoutSchema.length,
+      types: Array.from(types.entries()).map(([type, pages]) => ({ type, pages })).sort((a, b) => b.pages - a.pages),
+      topFindings: Array.from(rules.entries()).map(([rule, pages]) => ({ rule, pages })).sort((a, b) => b.pages - a.pages).slice(0, TOP_FINDINGS),
+      withoutSchema,
+    });
+  });
+  return report.sort((a, b) => a.withSchema / a.pages.length - b.withSchema / b.pages.length || b.pages.length - a.pages.length);
+}
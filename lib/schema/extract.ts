@@ -0,0 +1,208 @@
+import { diagnoseJson, type ParseFailure } from "./repair";
+
+export type Syntax = "json-ld" | "microdata" | "rdfa";
+
+export const SYNTAX_LABELS: Record<Syntax, string> = {
+  "json-ld": "JSON-LD",
+  microdata: "Microdata",
+  rdfa: "RDFa",
+};
+
+// Elements whose Microdata/RDFa value is a URL attribute rather than their text
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  audio: "src",
+  embed: "src",
+  iframe: "src",
+  img: "src",
+  source: "src",
+  track: "src",
+  video: "src",
+  object: "data",
+};
+
+export interface Extracted {
+  blocks: Record<Syntax, any[]>;
+  // JSON-LD script blocks that are not valid JSON
+  failures: ParseFailure[];
+}
+
+export function extractJsonLd(html: string): { blocks: any[]; failures: ParseFailure[] } {
+  const blocks: any[] = [];
+  const failures: ParseFailure[] = [];
+  const regex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let match;
+  while ((match = regex.exec(html)) !== null) {
+    if (!match[1].trim()) continue;
+    try {
+      const parsed = JSON.parse(match[1]);
+      if (Array.isArray(parsed)) blocks.push(...parsed);
+      else blocks.push(parsed);
+    } catch (err) {
+      failures.push(diagnoseJson(match[1], err));
+    }
+  }
+  return { blocks, failures };
+}
+
+function resolveUrl(value: string, base: string): string {
+  try {
+    return new URL(value, base).href;
+  } catch {
+    return value;
+  }
+}
+
+function textOf(el: Element): string {
+  return (el.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+// The vocabulary a type IRI belongs to: "https://schema.org/Product" -> "https://schema.org/"
+function vocabularyOf(type: string): string | undefined {
+  const cut = Math.max(type.lastIndexOf("/"), type.lastIndexOf("#"));
+  return cut > 0 ? type.slice(0, cut + 1) : undefined;
+}
+
+function addValue(item: Record<string, any>, name: string, value: any) {
+  if (!(name in item)) item[name] = value;
+  else if (Array.isArray(item[name])) item[name].push(value);
+  else item[name] = [item[name], value];
+}
+
+// Literal value of a property element; a content attribute wins, as search engines read it first
+function literalValue(el: Element, base: string): string {
+  const content = el.getAttribute("content");
+  if (content !== null) return content;
+  const tag = el.tagName.toLowerCase();
+  const urlAttribute = URL_ATTRIBUTES[tag];
+  if (urlAttribute && el.hasAttribute(urlAttribute)) return resolveUrl(el.getAttribute(urlAttribute)!, base);
+  if ((tag === "data" || tag === "meter") && el.hasAttribute("value")) return el.getAttribute("value")!;
+  if (tag === "time" && el.hasAttribute("datetime")) return el.getAttribute("datetime")!;
+  return textOf(el);
+}
+
+// Property elements of a Microdata item, not descending into nested items
+function microdataProperties(root: Element): Element[] {
+  const props: Element[] = [];
+  const visit = (el: Element) => {
+    for (const child of Array.from(el.children)) {
+      if (child.hasAttribute("itemprop")) props.push(child);
+      if (!child.hasAttribute("itemscope")) visit(child);
+    }
+  };
+  visit(root);
+  for (const id of (root.getAttribute("itemref") || "").split(/\s+/).filter(Boolean)) {
+    const ref = root.ownerDocument.getElementById(id);
+    if (!ref) continue;
+    if (ref.hasAttribute("itemprop")) props.push(ref);
+    if (!ref.hasAttribute("itemscope")) visit(ref);
+  }
+  return props;
+}
+
+function readMicrodataItem(el: Element, base: string, ancestors: Set<Element>): Record<string, any> {
+  const item: Record<string, any> = {};
+  const types = (el.getAttribute("itemtype") || "").split(/\s+/).filter(Boolean);
+  const vocab = types.length ? vocabularyOf(types[0]) : undefined;
+  if (vocab) item["@context"] = { "@vocab": vocab };
+  if (types.length) item["@type"] = types.length === 1 ? types[0] : types;
+  if (el.hasAttribute("itemid")) item["@id"] = resolveUrl(el.getAttribute("itemid")!, base);
+
+  const inside = new Set(ancestors).add(el);
+  for (const prop of microdataProperties(el)) {
+    if (inside.has(prop)) continue;
+    const value = prop.hasAttribute("itemscope") ? readMicrodataItem(prop, base, inside) : literalValue(prop, base);
+    for (const name of prop.getAttribute("itemprop")!.split(/\s+/).filter(Boolean)) addValue(item, name, value);
+  }
+  return item;
+}
+
+export function extractMicrodata(doc: Document, base: string): any[] {
+  return Array.from(doc.querySelectorAll("[itemscope]"))
+    .filter((el) => !el.hasAttribute("itemprop"))
+    .map((el) => readMicrodataItem(el, base, new Set()));
+}
+
+interface RdfaContext {
+  vocab?: string;
+  prefixes: Record<string, string>;
+}
+
+// vocab and prefix attributes in effect at an element, read from its ancestors
+function rdfaContextOf(el: Element): RdfaContext {
+  const chain: Element[] = [];
+  for (let cur: Element | null = el; cur; cur = cur.parentElement) chain.unshift(cur);
+  const ctx: RdfaContext = { prefixes: {} };
+  for (const node of chain) {
+    if (node.hasAttribute("vocab")) ctx.vocab = node.getAttribute("vocab") || undefined;
+    const prefix = node.getAttribute("prefix");
+    if (prefix) {
+      const pairs = prefix.trim().split(/\s+/);
+      for (let i = 0; i + 1 < pairs.length; i += 2) {
+        if (pairs[i].endsWith(":")) ctx.prefixes[pairs[i].slice(0, -1)] = pairs[i + 1];
+      }
+    }
+  }
+  return ctx;
+}
+
+function rdfaProperties(root: Element): Element[] {
+  const props: Element[] = [];
+  const visit = (el: Element) => {
+    for (const child of Array.from(el.children)) {
+      if (child.hasAttribute("property")) props.push(child);
+      if (!child.hasAttribute("typeof")) visit(child);
+    }
+  };
+  visit(root);
+  return props;
+}
+
+function readRdfaItem(el: Element, base: string): Record<string, any> {
+  const ctx = rdfaContextOf(el);
+  const item: Record<string, any> = {};
+  if (ctx.vocab || Object.keys(ctx.prefixes).length) item["@context"] = { ...(ctx.vocab ? { "@vocab": ctx.vocab } : {}), ...ctx.prefixes };
+  const types = (el.getAttribute("typeof") || "").split(/\s+/).filter(Boolean);
+  if (types.length) item["@type"] = types.length === 1 ? types[0] : types;
+  const id = el.getAttribute("resource") || el.getAttribute("about");
+  if (id) item["@id"] = resolveUrl(id, base);
+
+  for (const prop of rdfaProperties(el)) {
+    let value: any;
+    if (prop.hasAttribute("typeof")) value = readRdfaItem(prop, base);
+    else if (prop.hasAttribute("resource") && !prop.hasAttribute("content")) value = resolveUrl(prop.getAttribute("resource")!, base);
+    else value = literalValue(prop, base);
+    for (const name of prop.getAttribute("property")!.split(/\s+/).filter(Boolean)) addValue(item, name, value);
+  }
+  return item;
+}
+
+export function extractRdfa(doc: Document, base: string): any[] {
+  return Array.from(doc.querySelectorAll("[typeof]"))
+    .filter((el) => !el.hasAttribute("property"))
+    .map((el) => readRdfaItem(el, base));
+}
+
+// The document's <base href>, which relative URLs in its markup resolve against
+export function getBaseUrl(html: string, pageUrl: string): string {
+  const href = /<base\b[^>]*\bhref\s*=\s*["']([^"']+)["']/i.exec(html)?.[1];
+  return href ? resolveUrl(href.trim(), pageUrl) : pageUrl;
+}
+
+// Cheap check for any markup, without parsing it, for live crawl counts
+export function hasStructuredData(html: string): boolean {
+  return /<script[^>]*type=["']application\/ld\+json["']|\bitemscope\b|\btypeof=["']/i.test(html);
+}
+
+// Microdata and RDFa need a DOM, so they are only read in the browser
+export function extractFromHtml(html: string, base: string): Extracted {
+  const jsonLd = extractJsonLd(html);
+  const result: Extracted = { blocks: { "json-ld": jsonLd.blocks, microdata: [], rdfa: [] }, failures: jsonLd.failures };
+  if (typeof DOMParser === "undefined") return result;
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  result.blocks.microdata = extractMicrodata(doc, base);
+  result.blocks.rdfa = extractRdfa(doc, base);
+  return result;
+}
@@ -0,0 +1,69 @@
+export type Severity = "error" | "warning" | "info";
+
+export interface Finding {
+  rule: string;
+  severity: Severity;
+  message: string;
+  // JSON path of the property the finding is about, "" for the entity itself
+  path: string;
+  docs?: string;
+}
+
+// Every rule the validator can report, with the severity it is reported at
+export const RULES: Record<string, { severity: Severity; description: string }> = {
+  "missing-type": { severity: "error", description: "Entity has no @type" },
+  "missing-context": { severity: "warning", description: "Entity has no @context" },
+  "unknown-type": { severity: "error", description: "@type is not a Schema.org type" },
+  "required-field": { severity: "error", description: "Field required for a rich result is missing" },
+  "recommended-field": { severity: "warning", description: "Field recommended for a rich result is missing" },
+  "suggested-field": { severity: "info", description: "Commonly expected field is missing" },
+  "unknown-property": { severity: "warning", description: "Property is not a Schema.org term" },
+  "unexpected-property": { severity: "warning", description: "Property is not defined for the entity's type" },
+  "unexpected-type": { severity: "warning", description: "Nested entity type is outside the property's range" },
+  "invalid-value": { severity: "error", description: "Value is not in the format the property expects" },
+  "empty-value": { severity: "warning", description: "Property has an empty string value" },
+  "conflicting-definition": { severity: "warning", description: "Definitions sharing an @id disagree on a property" },
+  "unresolved-reference": { severity: "warning", description: "@id reference has no definition on the page" },
+  "breadcrumb-position": { severity: "error", description: "Breadcrumb positions do not run 1, 2, 3, ..." },
+  "breadcrumb-name": { severity: "error", description: "Breadcrumb entry has no name" },
+  "breadcrumb-item": { severity: "error", description: "Breadcrumb entry other than the last has no item URL" },
+  "breadcrumb-host": { severity: "warning", description: "Breadcrumb entry points to another host" },
+  "breadcrumb-broken-target": { severity: "warning", description: "Breadcrumb entry points to a page that failed in the crawl" },
+  "breadcrumb-hierarchy": { severity: "info", description: "Breadcrumb trail does not follow the page's URL path" },
+  "commerce-price": { severity: "error", description: "Offer has no price" },
+  "commerce-currency": { severity: "error", description: "Price has no priceCurrency" },
+  "commerce-price-range": { severity: "error", description: "AggregateOffer lowPrice is above highPrice" },
+  "commerce-expired": { severity: "warning", description: "priceValidUntil is in the past" },
+  "commerce-enum-url": { severity: "warning", description: "Enumeration value is not written as a full schema.org URL" },
+  "commerce-shipping": { severity: "error", description: "Shipping details are incomplete" },
+  "commerce-return-policy": { severity: "error", description: "Return policy is missing required details" },
+  "commerce-return-details": { severity: "warning", description: "Return policy is missing recommended details" },
+  "commerce-variant": { severity: "warning", description: "ProductGroup variants are inconsistent" },
+  "deprecated-term": { severity: "warning", description: "Type or property has been superseded in Schema.org" },
+  "pending-term": { severity: "info", description: "Term is pending or extension-only and may be ignored by search engines" },
+  "media-broken": { severity: "error", description: "Image or media URL returned an error in the crawl" },
+  "media-content-type": { severity: "error", description: "Media URL is not served with an image, video or audio content type" },
+  "media-too-small": { severity: "warning", description: "Image is below the minimum size for rich results" },
+  "media-host": { severity: "warning", description: "Relative media URL resolves through <base href> to a different host" },
+  "not-on-page": { severity: "warning", description: "Marked-up value does not appear in the page's visible content" },
+  "invalid-json": { severity: "error", description: "JSON-LD script block is not valid JSON" },
+  "json-syntax-hint": { severity: "info", description: "Likely cause of a JSON syntax error" },
+};
+
+const SCHEMA_DOCS = "https://schema.org";
+
+export function finding(rule: string, message: string, path: string, docs?: string): Finding {
+  return { rule, severity: RULES[rule].severity, message, path, ...(docs ? { docs } : {}) };
+}
+
+export function schemaDocs(term: string): string {
+  return `${SCHEMA_DOCS}/${term}`;
+}
+
+export function countBySeverity(findings: Finding[], severity: Severity): number {
+  return findings.filter((f) => f.severity === severity).length;
+}
+
+export function hasErrors(findings: Finding[]): boolean {
+  return findings.some((f) => f.severity === "error");
+}
@@ -0,0 +1,81 @@
+import { DEFAULT_CONTEXT, isForeignType, normalizeTypes, parseContext, type ContextInfo } from "./context";
+import { compactKey } from "./jsonld";
+import { isNode, type Node } from "./node";
+import { joinPath } from "./path";
+import { checkEligibility } from "./profiles";
+import { coerceValue } from "./values";
+import { findProperty, findType, getEnumerationMembers, getProperty, getSupersededBy, isDataType, isKnownType } from "./vocabulary";
+
+export interface SuggestedFix {
+  snippet: Record<string, any>;
+  // One line per edit, in the order they were made
+  changes: string[];
+}
+
+function at(path: string): string {
+  return path ? ` at ${path}` : "";
+}
+
+// Properties whose preferred range is a type get an empty typed node to fill in, the rest a marked string
+function placeholder(field: string): any {
+  const preferred = getProperty(field)?.range[0];
+  if (!preferred || isDataType(preferred) || getEnumerationMembers(preferred)) return `TODO: ${field}`;
+  return { "@type": preferred };
+}
+
+function fixValue(name: string, value: any, context: ContextInfo, path: string, base: string, changes: string[]): any {
+  if (Array.isArray(value)) return value.map((v, i) => fixValue(name, v, context, joinPath(path, i), base, changes));
+  if (isNode(value)) return fixNode(value, context, path, base, changes);
+  if (typeof value !== "string") return value;
+  const coerced = coerceValue(name, value, base);
+  if (coerced === undefined) return value;
+  changes.push(`Converted ${path} from "${value}" to "${coerced}"`);
+  return coerced;
+}
+
+function fixNode(node: Node, parent: ContextInfo, path: string, base: string, changes: string[]): Node {
+  const context = parseContext(node["@context"], parent);
+  const out: Node = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "@context") continue;
+    if (key === "@type") {
+      const types = normalizeTypes(value, context).map((t) => (isForeignType(t) || isKnownType(t) ? t : findType(t) || getSupersededBy(t) || t));
+      const fixed = types.length === 1 ? types[0] : types;
+      if (JSON.stringify(fixed) !== JSON.stringify(value)) changes.push(`Normalized @type${at(path)} from ${JSON.stringify(value)} to ${JSON.stringify(fixed)}`);
+      out[key] = fixed;
+      continue;
+    }
+    if (key.startsWith("@")) {
+      out[key] = value;
+      continue;
+    }
+    let name = compactKey(key, context);
+    if (!name.includes(":") && !getProperty(name)) name = findProperty(name) || getSupersededBy(name) || name;
+    if (name !== key) changes.push(`Renamed ${joinPath(path, key)} to ${name}`);
+    out[name] = fixValue(name, value, context, joinPath(path, name), base, changes);
+  }
+
+  // Placeholders only go on the entity itself; nested nodes are left as written
+  if (path) return out;
+  const types = normalizeTypes(out["@type"], DEFAULT_CONTEXT).filter(isKnownType);
+  for (const e of checkEligibility(out, types)) {
+    for (const field of e.missingRequired) {
+      // For alternatives, the first one listed is the usual choice
+      const name = field.split(" or ")[0];
+      if (name in out) continue;
+      out[name] = placeholder(name);
+      changes.push(`Added placeholder for required ${joinPath(path, name)} (${e.name})`);
+    }
+  }
+  return out;
+}
+
+// A corrected copy of an item, rewritten as a self-contained Schema.org JSON-LD block
+export function suggestFix(data: Record<string, any>, base: string): SuggestedFix {
+  const changes: string[] = [];
+  const context = data["@context"];
+  if (!context) changes.push("Added @context");
+  else if (context !== "https://schema.org") changes.push(`Replaced @context ${JSON.stringify(context)} with "https://schema.org"`);
+  const fixed = fixNode(data, DEFAULT_CONTEXT, "", base, changes);
+  return { snippet: { "@context": "https://schema.org", ...fixed }, changes };
+}
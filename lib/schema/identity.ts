@@ -0,0 +1,27 @@
+import { isNode, type Node } from "./node";
+
+// Sorted keys, trimmed and collapsed whitespace; nested entities with an @id stand in as references
+function canonical(value: any, top: boolean, stack: Set<object>): any {
+  if (typeof value === "string") return value.replace(/\s+/g, " ").trim();
+  if (Array.isArray(value)) return value.map((v) => canonical(v, false, stack));
+  if (!isNode(value)) return value;
+  if (!top && typeof value["@id"] === "string") return { "@id": value["@id"] };
+  if (stack.has(value)) return {};
+  stack.add(value);
+  const out: Node = {};
+  for (const key of Object.keys(value).sort()) {
+    if (key !== "@context") out[key] = canonical(value[key], false, stack);
+  }
+  stack.delete(value);
+  return out;
+}
+
+// Key that two entities share when they say the same thing, however their JSON is laid out
+export function entityKey(entity: Record<string, any>): string {
+  return JSON.stringify(canonical(entity, true, new Set()));
+}
+
+// An @id names one entity even when its copies drift between pages; content identifies the rest
+export function identityKey(entity: Record<string, any>): string {
+  return typeof entity["@id"] === "string" ? `@id:${entity["@id"]}` : entityKey(entity);
+}
@@ -0,0 +1,184 @@
+import { DEFAULT_CONTEXT, expandIri, isSchemaIri, normalizeTypes, parseContext, type ContextInfo } from "./context";
+import { finding, type Finding } from "./findings";
+import { isNode, type Node } from "./node";
+import { joinPath } from "./path";
+import { localName } from "./vocabulary";
+
+export interface ProcessedNode {
+  // The entity as published, before expansion
+  data: Record<string, any>;
+  // Keys and types compacted to Schema.org names, @id references replaced by their definitions
+  linked: Record<string, any>;
+  issues: Finding[];
+}
+
+interface Definition {
+  node: Record<string, any>;
+  owner: number;
+}
+
+// A node object carrying nothing but its identifier points at a definition elsewhere
+function isReference(node: Node): boolean {
+  return typeof node["@id"] === "string" && Object.keys(node).every((k) => k === "@id" || k === "@context");
+}
+
+function resolveId(id: string, base: string): string {
+  try {
+    return new URL(id, base).href;
+  } catch {
+    return id;
+  }
+}
+
+function report(issues: Finding[], issue: Finding) {
+  if (!issues.some((i) => i.message === issue.message)) issues.push(issue);
+}
+
+// Split blocks into top-level nodes, carrying the @context of a @graph down to its members
+export function flattenBlocks(blocks: any[]): Node[] {
+  const nodes: Node[] = [];
+  for (const block of blocks) {
+    if (Array.isArray(block)) nodes.push(...flattenBlocks(block));
+    else if (!isNode(block)) continue;
+    else if (Array.isArray(block["@graph"])) {
+      for (const g of block["@graph"]) {
+        if (isNode(g)) nodes.push({ ...g, "@context": g["@context"] || block["@context"] });
+      }
+    } else nodes.push(block);
+  }
+  return nodes;
+}
+
+export function compactKey(key: string, context: ContextInfo): string {
+  const iri = expandIri(key, context);
+  return isSchemaIri(iri) ? localName(iri) : key;
+}
+
+function normalize(value: any, context: ContextInfo, base: string): any {
+  if (Array.isArray(value)) return value.map((v) => normalize(v, context, base));
+  if (!isNode(value)) return value;
+  if ("@value" in value) return value["@value"];
+  const ctx = parseContext(value["@context"], context);
+  const out: Node = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (key === "@context") continue;
+    if (key === "@id") out[key] = typeof v === "string" ? resolveId(v, base) : v;
+    else if (key === "@type") {
+      const types = normalizeTypes(v, ctx);
+      if (types.length) out[key] = types.length === 1 ? types[0] : types;
+    } else if (key.startsWith("@")) out[key] = v;
+    else out[compactKey(key, ctx)] = normalize(v, ctx, base);
+  }
+  return out;
+}
+
+function collectDefinitions(value: any, owner: number, into: Map<string, Definition[]>) {
+  if (Array.isArray(value)) {
+    for (const v of value) collectDefinitions(v, owner, into);
+    return;
+  }
+  if (!isNode(value)) return;
+  const id = value["@id"];
+  if (typeof id === "string" && !isReference(value)) into.set(id, [...(into.get(id) || []), { node: value, owner }]);
+  for (const [key, v] of Object.entries(value)) {
+    if (!key.startsWith("@")) collectDefinitions(v, owner, into);
+  }
+}
+
+// Compare values with nested identified nodes reduced to their @id, so a reference and an inline copy agree
+function identity(value: any): any {
+  if (Array.isArray(value)) return value.map(identity);
+  if (!isNode(value)) return value;
+  if (typeof value["@id"] === "string") return { "@id": value["@id"] };
+  return Object.fromEntries(Object.keys(value).sort().map((k) => [k, identity(value[k])]));
+}
+
+function preview(value: any): string {
+  const text = typeof value === "string" ? `"${value}"` : JSON.stringify(identity(value));
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function findDanglingReferences(value: any, path: string, defined: Map<string, Node>, issues: Finding[]) {
+  if (Array.isArray(value)) {
+    value.forEach((v, i) => findDanglingReferences(v, joinPath(path, i), defined, issues));
+    return;
+  }
+  if (!isNode(value)) return;
+  if (isReference(value)) {
+    if (!defined.has(value["@id"])) {
+      issues.push(finding("unresolved-reference", `Unresolved @id reference: ${value["@id"]}${path ? ` at ${path}` : ""}`, path));
+    }
+    return;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    if (!key.startsWith("@")) findDanglingReferences(v, joinPath(path, key), defined, issues);
+  }
+}
+
+// Expand every block on a page into one node map and return its top-level entities linked together
+export function processJsonLd(blocks: any[], baseUrl: string): ProcessedNode[] {
+  const originals = flattenBlocks(blocks);
+  const normalized = originals.map((node) => {
+    const out = normalize(node, parseContext(node["@context"], DEFAULT_CONTEXT), baseUrl);
+    return node["@context"] ? { "@context": "https://schema.org", ...out } : out;
+  });
+  const issues: Finding[][] = originals.map(() => []);
+
+  const definitions = new Map<string, Definition[]>();
+  normalized.forEach((node, i) => collectDefinitions(node, i, definitions));
+
+  // Merge split definitions of the same node, reporting properties they disagree on
+  const merged = new Map<string, Node>();
+  definitions.forEach((defs, id) => {
+    const node: Node = {};
+    for (const { node: def, owner } of defs) {
+      for (const [key, value] of Object.entries(def)) {
+        if (!(key in node)) node[key] = value;
+        else if (key !== "@context" && JSON.stringify(identity(node[key])) !== JSON.stringify(identity(value))) {
+          const message = `Conflicting definitions for ${id}: ${key} is ${preview(node[key])} and ${preview(value)}`;
+          report(issues[owner], finding("conflicting-definition", message, ""));
+        }
+      }
+    }
+    merged.set(id, node);
+  });
+
+  const linkedById = new Map<string, Node>();
+  const link = (value: any): any => {
+    if (Array.isArray(value)) return value.map(link);
+    if (!isNode(value)) return value;
+    const id = value["@id"];
+    if (typeof id === "string" && merged.has(id)) return linkNode(id);
+    const out: Node = {};
+    for (const [key, v] of Object.entries(value)) out[key] = key.startsWith("@") ? v : link(v);
+    return out;
+  };
+  const linkNode = (id: string): Node => {
+    const existing = linkedById.get(id);
+    if (existing) return existing;
+    const out: Node = {};
+    linkedById.set(id, out);
+    for (const [key, v] of Object.entries(merged.get(id)!)) out[key] = key.startsWith("@") ? v : link(v);
+    return out;
+  };
+
+  const result: ProcessedNode[] = [];
+  const emitted = new Set<string>();
+  normalized.forEach((node, i) => {
+    findDanglingReferences(node, "", merged, issues[i]);
+    const id = node["@id"];
+    if (typeof id === "string" && merged.has(id)) {
+      // Later definitions of an already listed node were merged into it
+      if (emitted.has(id)) {
+        const first = result.find((r) => r.linked === linkNode(id));
+        if (first) issues[i].forEach((issue) => report(first.issues, issue));
+        return;
+      }
+      emitted.add(id);
+      result.push({ data: originals[i], linked: linkNode(id), issues: issues[i] });
+    } else {
+      result.push({ data: originals[i], linked: link(node), issues: issues[i] });
+    }
+  });
+  return result;
+}
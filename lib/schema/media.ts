@@ -0,0 +1,223 @@
+import { hostOf, pageKey, parseUrl } from "../url";
+import { DEFAULT_CONTEXT, normalizeTypes } from "./context";
+import { finding, type Finding } from "./findings";
+import { isNode, type Node } from "./node";
+import { joinPath } from "./path";
+import { isSubTypeOf } from "./vocabulary";
+
+export type MediaKind = "image" | "video" | "audio";
+
+// What the crawl learned about a fetched URL
+export interface MediaResource {
+  url: string;
+  status?: number;
+  error?: string;
+  contentType?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface MediaReference {
+  url: string;
+  property: string;
+  path: string;
+}
+
+export interface MediaCheck {
+  findings: Finding[];
+  // References with no matching resource in the crawl
+  unverified: MediaReference[];
+}
+
+// Properties whose value is an image URL, or an ImageObject carrying one
+const MEDIA_PROPERTIES: Record<string, MediaKind> = {
+  image: "image",
+  logo: "image",
+  thumbnailUrl: "image",
+  thumbnail: "image",
+};
+
+// Smallest images Google shows in rich results; `pixels` is width x height
+const MIN_SIZES: Record<string, { width: number; height: number; pixels: number }> = {
+  logo: { width: 112, height: 112, pixels: 0 },
+  thumbnailUrl: { width: 60, height: 30, pixels: 0 },
+  thumbnail: { width: 60, height: 30, pixels: 0 },
+  image: { width: 0, height: 0, pixels: 50000 },
+};
+
+const ASSET_EXTENSION = /\.(png|jpe?g|gif|webp|avif|svg|ico|bmp|mp4|webm|mov|m4v|mp3|ogg|wav|css|js|mjs|woff2?|ttf|otf|pdf)$/i;
+
+function header(page: any, name: string): string | undefined {
+  if (!isNode(page.headers)) return undefined;
+  const key = Object.keys(page.headers).find((k) => k.toLowerCase() === name);
+  const value = key ? page.headers[key] : undefined;
+  return typeof value === "string" ? value.split(";")[0].trim().toLowerCase() : undefined;
+}
+
+// Resource bodies arrive either base64 encoded or as a byte-per-character string
+function toBytes(content: string): Uint8Array {
+  const compact = content.slice(0, 90000).replace(/\s/g, "");
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(compact.slice(0, 1024))) {
+    try {
+      const binary = atob(compact.length > 65536 ? compact.slice(0, 65536) : compact);
+      return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    } catch {}
+  }
+  return Uint8Array.from(content.slice(0, 65536), (c) => c.charCodeAt(0) & 0xff);
+}
+
+function sniffType(bytes: Uint8Array, text: string): string | undefined {
+  const starts = (...sig: number[]) => sig.every((b, i) => bytes[i] === b);
+  if (starts(0x89, 0x50, 0x4e, 0x47)) return "image/png";
+  if (starts(0xff, 0xd8, 0xff)) return "image/jpeg";
+  if (starts(0x47, 0x49, 0x46, 0x38)) return "image/gif";
+  if (starts(0x52, 0x49, 0x46, 0x46) && String.fromCharCode(...Array.from(bytes.slice(8, 12))) === "WEBP") return "image/webp";
+  const lead = text.slice(0, 512).trimStart().toLowerCase();
+  if (lead.startsWith("<svg") || (lead.startsWith("<?xml") && lead.includes("<svg"))) return "image/svg+xml";
+  if (lead.startsWith("<!doctype html") || lead.startsWith("<html")) return "text/html";
+  return undefined;
+}
+
+// Width and height from the PNG, GIF, WebP or JPEG header
+function imageSize(bytes: Uint8Array, type: string): { width: number; height: number } | undefined {
+  const u16be = (i: number) => (bytes[i] << 8) | bytes[i + 1];
+  const u16le = (i: number) => bytes[i] | (bytes[i + 1] << 8);
+  const u32be = (i: number) => ((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0;
+  if (type === "image/png" && bytes.length >= 24) return { width: u32be(16), height: u32be(20) };
+  if (type === "image/gif" && bytes.length >= 10) return { width: u16le(6), height: u16le(8) };
+  if (type === "image/webp" && bytes.length >= 30) {
+    const chunk = String.fromCharCode(...Array.from(bytes.slice(12, 16)));
+    if (chunk === "VP8 ") return { width: u16le(26) & 0x3fff, height: u16le(28) & 0x3fff };
+    if (chunk === "VP8L") {
+      const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+      return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >>> 14) & 0x3fff) };
+    }
+    if (chunk === "VP8X") return { width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)), height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) };
+  }
+  if (type === "image/jpeg") {
+    let i = 2;
+    while (i + 9 < bytes.length) {
+      if (bytes[i] !== 0xff) return undefined;
+      const marker = bytes[i + 1];
+      // Start-of-frame markers carry the dimensions; C4, C8 and CC are tables
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) return { width: u16be(i + 7), height: u16be(i + 5) };
+      i += 2 + u16be(i + 2);
+    }
+  }
+  return undefined;
+}
+
+// Pages fetched only because full_resources was on: images, scripts, styles and other files
+export function isAssetPage(page: any): boolean {
+  const type = header(page, "content-type");
+  if (type) return !type.includes("html");
+  try {
+    return ASSET_EXTENSION.test(new URL(page.url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+// Every crawled URL with its status, type and (for images) dimensions, keyed by pageKey
+export function collectResources(pages: any[]): Map<string, MediaResource> {
+  const resources = new Map<string, MediaResource>();
+  for (const page of pages) {
+    if (!page?.url) continue;
+    const resource: MediaResource = { url: page.url };
+    if (typeof page.status === "number") resource.status = page.status;
+    if (page.error) resource.error = String(page.error);
+    let type = header(page, "content-type");
+    if (typeof page.content === "string" && page.content && (!type || type.startsWith("image/"))) {
+      const bytes = toBytes(page.content);
+      type = type || sniffType(bytes, page.content);
+      const size = type ? imageSize(bytes, type) : undefined;
+      if (size?.width && size.height) Object.assign(resource, size);
+    }
+    if (type) resource.contentType = type;
+    resources.set(pageKey(page.url), resource);
+  }
+  return resources;
+}
+
+function mediaKind(node: Node): MediaKind | undefined {
+  const types = normalizeTypes(node["@type"], DEFAULT_CONTEXT);
+  if (types.some((t) => isSubTypeOf(t, "ImageObject"))) return "image";
+  if (types.some((t) => isSubTypeOf(t, "VideoObject"))) return "video";
+  if (types.some((t) => isSubTypeOf(t, "AudioObject"))) return "audio";
+  return undefined;
+}
+
+function collectReferences(node: Node, path: string, via: string | undefined, seen: Set<object>, into: (MediaReference & { kind: MediaKind })[]) {
+  if (seen.has(node)) return;
+  seen.add(node);
+  const kind = mediaKind(node);
+  if (kind) {
+    const key = typeof node.contentUrl === "string" ? "contentUrl" : kind === "image" && typeof node.url === "string" ? "url" : undefined;
+    if (key) into.push({ url: node[key], property: via ?? key, path: joinPath(path, key), kind });
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith("@")) continue;
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((v, i) => {
+      const at = Array.isArray(value) ? joinPath(joinPath(path, key), i) : joinPath(path, key);
+      if (isNode(v)) collectReferences(v, at, MEDIA_PROPERTIES[key] ? key : undefined, seen, into);
+      else if (typeof v === "string" && v.trim() && MEDIA_PROPERTIES[key]) into.push({ url: v.trim(), property: key, path: at, kind: MEDIA_PROPERTIES[key] });
+    });
+  }
+}
+
+// Image, logo, thumbnail and media URLs in an entity, matched against what the crawl fetched.
+// Relative URLs resolve against the document's <base href>, which can point at another host.
+export function checkMedia(
+  entity: Record<string, any>,
+  pageUrl: string,
+  resources: Map<string, MediaResource>,
+  standalone: object[] = [],
+  baseUrl = pageUrl
+): MediaCheck {
+  const references: (MediaReference & { kind: MediaKind })[] = [];
+  collectReferences(entity, "", undefined, new Set(standalone.filter((s) => s !== entity)), references);
+
+  const findings: Finding[] = [];
+  const unverified: MediaReference[] = [];
+  const page = parseUrl(pageUrl, pageUrl);
+  const checked = new Set<string>();
+  for (const { url, property, path, kind } of references) {
+    if (/^data:/i.test(url)) continue;
+    const target = parseUrl(url, baseUrl);
+    if (!target || !/^https?:$/.test(target.protocol)) continue;
+    if (checked.has(`${property}|${target.href}`)) continue;
+    checked.add(`${property}|${target.href}`);
+
+    // Absolute and protocol-relative (//cdn...) URLs name their host on purpose
+    if (!/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url) && page && hostOf(target) !== hostOf(page)) {
+      findings.push(finding("media-host", `Relative URL "${url}" at ${path} resolves against <base href> to ${target.hostname}, not ${page.hostname}`, path));
+    }
+    const resource = resources.get(pageKey(target.href));
+    if (!resource) {
+      unverified.push({ url: target.href, property, path });
+      continue;
+    }
+    if (resource.status !== undefined && resource.status >= 400) {
+      findings.push(finding("media-broken", `${path} (${target.href}) returned HTTP ${resource.status}`, path));
+      continue;
+    }
+    if (resource.error) {
+      findings.push(finding("media-broken", `${path} (${target.href}) could not be fetched: ${resource.error}`, path));
+      continue;
+    }
+    if (resource.contentType && !resource.contentType.startsWith(`${kind}/`)) {
+      findings.push(finding("media-content-type", `${path} (${target.href}) is served as ${resource.contentType}, not as ${kind === "image" ? "an" : "a"} ${kind}`, path));
+      continue;
+    }
+    const min = MIN_SIZES[property];
+    const { width, height } = resource;
+    if (kind !== "image" || !min || !width || !height) continue;
+    if (width < min.width || height < min.height) {
+      findings.push(finding("media-too-small", `${path} is ${width}x${height}px; a ${property} needs at least ${min.width}x${min.height}px`, path));
+    } else if (width * height < min.pixels) {
+      findings.push(finding("media-too-small", `${path} is ${width}x${height}px; rich results need an ${property} of at least ${min.pixels.toLocaleString("en-US")} pixels (width x height)`, path));
+    }
+  }
+  return { findings, unverified };
+}
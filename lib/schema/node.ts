@@ -0,0 +1,6 @@
+// A JSON-LD object as parsed: any plain object, as opposed to a value or an array of them
+export type Node = Record<string, any>;
+
+export function isNode(value: any): value is Node {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
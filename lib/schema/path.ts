@@ -0,0 +1,5 @@
+// "offers" + 0 + "price" -> "offers[0].price"
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,276 @@
+import { isKnownType, isSubTypeOf } from "./vocabulary";
+
+// A nested array means any one of the listed fields satisfies the requirement
+export type FieldRequirement = string | string[];
+
+export interface RichResultProfile {
+  id: string;
+  name: string;
+  types: string[];
+  required: FieldRequirement[];
+  recommended: string[];
+  // Satisfied by the parent entity when this item is nested inside another
+  impliedWhenNested?: string[];
+  // Read on its own even inside another entity, like a video embedded in an article
+  readWhenNested?: boolean;
+  docs: string;
+}
+
+export interface Eligibility {
+  profile: string;
+  name: string;
+  docs: string;
+  eligible: boolean;
+  missingRequired: string[];
+  missingRecommended: string[];
+}
+
+const DOCS = "https://developers.google.com/search/docs/appearance/structured-data";
+
+// Google rich result features and the properties each one needs
+export const RICH_RESULT_PROFILES: RichResultProfile[] = [
+  {
+    id: "article",
+    name: "Article",
+    types: ["Article"],
+    required: [],
+    recommended: ["author", "dateModified", "datePublished", "headline", "image"],
+    docs: `${DOCS}/article`,
+  },
+  {
+    id: "breadcrumb",
+    name: "Breadcrumb",
+    types: ["BreadcrumbList"],
+    required: ["itemListElement"],
+    recommended: [],
+    docs: `${DOCS}/breadcrumb`,
+  },
+  {
+    id: "course",
+    name: "Course info",
+    types: ["Course"],
+    required: ["name", "description"],
+    recommended: ["provider", "offers", "hasCourseInstance"],
+    docs: `${DOCS}/course-info`,
+  },
+  {
+    id: "dataset",
+    name: "Dataset",
+    types: ["Dataset"],
+    required: ["name", "description"],
+    recommended: ["alternateName", "creator", "citation", "distribution", "identifier", "keywords", "license", "sameAs", "url"],
+    docs: `${DOCS}/dataset`,
+  },
+  {
+    id: "discussion-forum",
+    name: "Discussion forum",
+    types: ["DiscussionForumPosting"],
+    required: ["author", "datePublished", ["text", "image", "video"]],
+    recommended: ["comment", "dateModified", "headline", "url"],
+    docs: `${DOCS}/discussion-forum`,
+  },
+  {
+    id: "event",
+    name: "Event",
+    types: ["Event"],
+    required: ["name", "startDate", "location"],
+    recommended: ["description", "endDate", "eventAttendanceMode", "eventStatus", "image", "offers", "organizer", "performer"],
+    readWhenNested: true,
+    docs: `${DOCS}/event`,
+  },
+  {
+    id: "fact-check",
+    name: "Fact check",
+    types: ["ClaimReview"],
+    required: ["claimReviewed", "reviewRating", "url"],
+    recommended: ["author", "itemReviewed"],
+    docs: `${DOCS}/factcheck`,
+  },
+  {
+    id: "faq",
+    name: "FAQ",
+    types: ["FAQPage"],
+    required: ["mainEntity"],
+    recommended: [],
+    docs: `${DOCS}/faqpage`,
+  },
+  {
+    id: "image-metadata",
+    name: "Image metadata",
+    types: ["ImageObject"],
+    required: ["contentUrl", ["creator", "creditText", "copyrightNotice", "license"]],
+    recommended: ["acquireLicensePage", "creator", "creditText", "copyrightNotice", "license"],
+    docs: `${DOCS}/image-license-metadata`,
+  },
+  {
+    id: "job-posting",
+    name: "Job posting",
+    types: ["JobPosting"],
+    required: ["datePosted", "description", "hiringOrganization", ["jobLocation", "applicantLocationRequirements"], "title"],
+    recommended: ["baseSalary", "directApply", "employmentType", "identifier", "jobLocationType", "validThrough"],
+    docs: `${DOCS}/job-posting`,
+  },
+  {
+    id: "local-business",
+    name: "Local business",
+    types: ["LocalBusiness"],
+    required: ["name", "address"],
+    recommended: ["aggregateRating", "geo", "openingHoursSpecification", "priceRange", "review", "telephone", "url"],
+    docs: `${DOCS}/local-business`,
+  },
+  {
+    id: "merchant-listing",
+    name: "Merchant listing",
+    types: ["Product"],
+    required: ["name", "image", "offers"],
+    recommended: ["aggregateRating", "brand", "color", "description", "gtin", "material", "mpn", "pattern", "review", "size", "sku"],
+    docs: `${DOCS}/merchant-listing`,
+  },
+  {
+    id: "movie",
+    name: "Movie carousel",
+    types: ["Movie"],
+    required: ["name", "image"],
+    recommended: ["aggregateRating", "dateCreated", "director", "review"],
+    docs: `${DOCS}/movie`,
+  },
+  {
+    id: "organization",
+    name: "Organization",
+    types: ["Organization"],
+    required: [],
+    recommended: ["name", "url", "logo", "sameAs", "address", "telephone", "description", "email", "contactPoint"],
+    docs: `${DOCS}/organization`,
+  },
+  {
+    id: "product-snippet",
+    name: "Product snippet",
+    types: ["Product"],
+    required: ["name", ["review", "aggregateRating", "offers"]],
+    recommended: ["aggregateRating", "offers", "review", "positiveNotes", "negativeNotes"],
+    docs: `${DOCS}/product-snippet`,
+  },
+  {
+    id: "profile-page",
+    name: "Profile page",
+    types: ["ProfilePage"],
+    required: ["mainEntity"],
+    recommended: ["dateCreated", "dateModified"],
+    docs: `${DOCS}/profile-page`,
+  },
+  {
+    id: "qa",
+    name: "Q&A",
+    types: ["QAPage"],
+    required: ["mainEntity"],
+    recommended: [],
+    docs: `${DOCS}/qapage`,
+  },
+  {
+    id: "recipe",
+    name: "Recipe",
+    types: ["Recipe"],
+    required: ["name", "image"],
+    recommended: ["aggregateRating", "author", "cookTime", "datePublished", "description", "keywords", "nutrition", "prepTime", "recipeCategory", "recipeCuisine", "recipeIngredient", "recipeInstructions", "recipeYield", "totalTime", "video"],
+    docs: `${DOCS}/recipe`,
+  },
+  {
+    id: "review-snippet",
+    name: "Review snippet",
+    types: ["Review"],
+    required: ["author", "itemReviewed", "reviewRating"],
+    recommended: ["datePublished", "reviewBody"],
+    impliedWhenNested: ["itemReviewed"],
+    docs: `${DOCS}/review-snippet`,
+  },
+  {
+    id: "aggregate-rating",
+    name: "Aggregate rating",
+    types: ["AggregateRating"],
+    required: ["itemReviewed", "ratingValue", ["ratingCount", "reviewCount"]],
+    recommended: ["bestRating", "worstRating"],
+    impliedWhenNested: ["itemReviewed"],
+    docs: `${DOCS}/review-snippet`,
+  },
+  {
+    id: "software-app",
+    name: "Software app",
+    types: ["SoftwareApplication"],
+    required: ["name", "offers", ["aggregateRating", "review"]],
+    recommended: ["applicationCategory", "operatingSystem"],
+    docs: `${DOCS}/software-app`,
+  },
+  {
+    id: "video",
+    name: "Video",
+    types: ["VideoObject"],
+    required: ["name", "thumbnailUrl", "uploadDate"],
+    recommended: ["contentUrl", "description", "duration", "embedUrl", "expires", "hasPart", "interactionStatistic", "regionsAllowed"],
+    readWhenNested: true,
+    docs: `${DOCS}/video`,
+  },
+];
+
+// Terms still in Schema.org's pending area that Google documents for merchant listings, product
+// variants, return and shipping policies, loyalty programs and events
+const PENDING_FEATURE_TERMS = [
+  "gtin", "pattern", "size", "sizeGroup", "sizeSystem", "suggestedAge", "SizeSpecification",
+  "SizeGroupEnumeration", "SizeSystemEnumeration", "WearableSizeGroupEnumeration", "WearableSizeSystemEnumeration",
+  "ProductGroup", "hasVariant", "variesBy", "productGroupID", "inProductGroupWithID",
+  "hasMerchantReturnPolicy", "MerchantReturnPolicy", "MerchantReturnPolicySeasonalOverride", "MerchantReturnEnumeration",
+  "applicableCountry", "returnPolicyCategory", "returnPolicyCountry", "returnPolicySeasonalOverride", "merchantReturnDays",
+  "merchantReturnLink", "returnMethod", "ReturnMethodEnumeration", "returnFees", "ReturnFeesEnumeration",
+  "returnShippingFeesAmount", "returnLabelSource", "ReturnLabelSourceEnumeration", "refundType", "RefundTypeEnumeration",
+  "restockingFee", "customerRemorseReturnFees", "customerRemorseReturnLabelSource", "customerRemorseReturnShippingFeesAmount",
+  "itemDefectReturnFees", "itemDefectReturnLabelSource", "itemDefectReturnShippingFeesAmount",
+  "ShippingService", "ShippingConditions", "hasShippingService", "shippingConditions",
+  "MemberProgram", "MemberProgramTier", "TierBenefitEnumeration", "validForMemberTier", "membershipPointsEarned",
+  "PriceTypeEnumeration", "PriceComponentTypeEnumeration", "priceComponentType",
+  "EnergyConsumptionDetails", "hasEnergyConsumptionDetails", "hasEnergyEfficiencyCategory",
+  "energyEfficiencyScaleMin", "energyEfficiencyScaleMax", "EnergyEfficiencyEnumeration", "EUEnergyEfficiencyEnumeration",
+  "eventAttendanceMode", "EventAttendanceModeEnumeration", "VirtualLocation",
+];
+
+const FEATURE_TERMS = new Set([
+  ...PENDING_FEATURE_TERMS,
+  ...RICH_RESULT_PROFILES.flatMap((p) => [...p.types, ...p.required.flat(), ...p.recommended]),
+]);
+
+// Whether a rich result feature reads this term, so its Schema.org layer does not matter to search engines
+export function isFeatureTerm(term: string): boolean {
+  return FEATURE_TERMS.has(term);
+}
+
+export function hasValue(data: Record<string, any>, field: string): boolean {
+  const value = data[field];
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value || value === 0 || value === false;
+}
+
+// Every profile that applies to at least one of the entity's types
+export function getProfiles(types: string[]): RichResultProfile[] {
+  const known = types.filter(isKnownType);
+  return RICH_RESULT_PROFILES.filter((p) => p.types.some((t) => known.some((type) => isSubTypeOf(type, t))));
+}
+
+// Nested entities are usually parts of their parent's rich result, so only the profiles meant to be
+// read inside a parent (reviews, ratings, embedded videos and events) apply to them
+export function checkEligibility(data: Record<string, any>, types: string[], nested = false): Eligibility[] {
+  const profiles = getProfiles(types).filter((profile) => !nested || profile.impliedWhenNested || profile.readWhenNested);
+  return profiles.map((profile) => {
+    const implied = nested ? profile.impliedWhenNested || [] : [];
+    const present = (field: string) => implied.includes(field) || hasValue(data, field);
+    const missingRequired = profile.required
+      .filter((req) => (Array.isArray(req) ? !req.some(present) : !present(req)))
+      .map((req) => (Array.isArray(req) ? req.join(" or ") : req));
+    const missingRecommended = profile.recommended.filter((f) => !hasValue(data, f));
+    return {
+      profile: profile.id,
+      name: profile.name,
+      docs: profile.docs,
+      eligible: missingRequired.length === 0,
+      missingRequired,
+      missingRecommended,
+    };
+  });
+}
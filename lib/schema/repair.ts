@@ -0,0 +1,152 @@
+import { finding, type Finding } from "./findings";
+
+export type JsonSyntaxCause = "comment" | "trailing-comma" | "unescaped-quote" | "unescaped-newline" | "html-entities" | "concatenated";
+
+export const CAUSE_LABELS: Record<JsonSyntaxCause, string> = {
+  comment: "JavaScript-style /* */ or // comment, which JSON does not allow",
+  "trailing-comma": "Trailing comma before a closing bracket",
+  "unescaped-quote": "Unescaped double quote inside a string",
+  "unescaped-newline": "Raw line break or tab inside a string",
+  "html-entities": "HTML entities such as &quot; in place of plain characters",
+  concatenated: "Several JSON values one after another without an enclosing array",
+};
+
+export interface ParseFailure {
+  source: string;
+  message: string;
+  line: number;
+  column: number;
+  causes: JsonSyntaxCause[];
+  // Present when mechanical fixes make the block parse
+  repaired?: any;
+}
+
+const ENTITY_RE = /&(quot|amp|lt|gt|apos|#39|#34|#x22|#x27);/gi;
+
+const ENTITIES: Record<string, string> = {
+  "&quot;": '"',
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&apos;": "'",
+  "&#39;": "'",
+  "&#34;": '"',
+  "&#x22;": '"',
+  "&#x27;": "'",
+};
+
+function nextNonSpace(text: string, from: number): string | undefined {
+  for (let i = from; i < text.length; i++) {
+    if (!/\s/.test(text[i])) return text[i];
+  }
+  return undefined;
+}
+
+function lineAndColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const lines = before.split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+// Engines word their errors differently: V8 gives a position, newer V8 and Firefox a line and column
+function locate(message: string, text: string): { line: number; column: number } | undefined {
+  const lc = /line (\d+) column (\d+)/i.exec(message);
+  if (lc) return { line: Number(lc[1]), column: Number(lc[2]) };
+  const pos = /position (\d+)/i.exec(message);
+  if (pos) return lineAndColumn(text, Number(pos[1]));
+  return undefined;
+}
+
+// Walk the text once, string-aware, fixing what can be fixed mechanically and noting what was wrong
+function scan(text: string): { fixed: string; causes: Set<JsonSyntaxCause>; firstIssue?: number } {
+  const causes = new Set<JsonSyntaxCause>();
+  let firstIssue: number | undefined;
+  const note = (cause: JsonSyntaxCause, at: number) => {
+    causes.add(cause);
+    if (firstIssue === undefined) firstIssue = at;
+  };
+  let out = "";
+  let inString = false;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === "\\") {
+        out += c + (text[i + 1] ?? "");
+        i++;
+      } else if (c === '"') {
+        // A quote closes the string only when a delimiter, a comment (or the next string, missing its comma) follows it
+        const next = nextNonSpace(text, i + 1);
+        if (next === undefined || ",:}]\"".includes(next) || /^\s*\/[*/]/.test(text.slice(i + 1))) {
+          inString = false;
+          out += c;
+        } else {
+          note("unescaped-quote", i);
+          out += '\\"';
+        }
+      } else if (c === "\n" || c === "\r" || c === "\t") {
+        note("unescaped-newline", i);
+        out += c === "\n" ? "\\n" : c === "\r" ? "\\r" : "\\t";
+      } else out += c;
+      continue;
+    }
+    // Comments are dropped before anything else, so quotes inside them are not read as strings
+    if (c === "/" && (text[i + 1] === "*" || text[i + 1] === "/")) {
+      note("comment", i);
+      const end = text[i + 1] === "*" ? text.indexOf("*/", i + 2) : text.indexOf("\n", i + 2);
+      if (end === -1) break;
+      i = text[i + 1] === "*" ? end + 1 : end - 1;
+      continue;
+    }
+    if (c === '"') inString = true;
+    else if (c === "," && "}]".includes(nextNonSpace(text, i + 1) ?? "")) {
+      note("trailing-comma", i);
+      continue;
+    } else if (c === "{" || c === "[") depth++;
+    else if (c === "}" || c === "]") {
+      depth--;
+      const next = nextNonSpace(text, i + 1);
+      if (depth === 0 && (next === "{" || next === "[")) {
+        note("concatenated", i + 1);
+        out += c + ",";
+        continue;
+      }
+    }
+    out += c;
+  }
+  return { fixed: causes.has("concatenated") ? `[${out}]` : out, causes, firstIssue };
+}
+
+// Explain why a block failed to parse and, where the fix is mechanical, repair it
+export function diagnoseJson(source: string, error: unknown): ParseFailure {
+  const message = error instanceof Error ? error.message : String(error);
+  const causes = new Set<JsonSyntaxCause>();
+  let text = source;
+  // Entity-encoded quotes mean the whole block was escaped as HTML text
+  if (/&(quot|#34|#x22);/i.test(text)) {
+    causes.add("html-entities");
+    text = text.replace(ENTITY_RE, (m) => ENTITIES[m.toLowerCase()] ?? m);
+  }
+  const scanned = scan(text);
+  scanned.causes.forEach((c) => causes.add(c));
+
+  const position = locate(message, source)
+    ?? lineAndColumn(source, scanned.firstIssue ?? source.length);
+
+  let repaired: any;
+  if (causes.size) {
+    try {
+      repaired = JSON.parse(scanned.fixed);
+    } catch {
+      repaired = undefined;
+    }
+  }
+  return { source, message, ...position, causes: Array.from(causes), ...(repaired !== undefined ? { repaired } : {}) };
+}
+
+export function getFailureFindings(failure: ParseFailure): Finding[] {
+  return [
+    finding("invalid-json", `Invalid JSON-LD at line ${failure.line}, column ${failure.column}: ${failure.message}`, ""),
+    ...failure.causes.map((c) => finding("json-syntax-hint", `Likely cause: ${CAUSE_LABELS[c]}`, "")),
+  ];
+}
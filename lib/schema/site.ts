@@ -0,0 +1,150 @@
+import { DEFAULT_CONTEXT, normalizeTypes } from "./context";
+import { isNode, type Node } from "./node";
+import { getAncestors, isKnownType } from "./vocabulary";
+
+// Entities that describe the site itself and are expected to read the same on every page
+const SITE_TYPES = ["Organization", "WebSite", "Person", "Brand"];
+
+export interface PropertyConflict {
+  property: string;
+  values: { value: string; pages: string[] }[];
+}
+
+export interface SiteEntity {
+  type: string;
+  label: string;
+  pages: string[];
+  conflicts: PropertyConflict[];
+  // Pages without the entity, only filled for entities found on most pages
+  missingFrom: string[];
+}
+
+interface Occurrence {
+  page: string;
+  type: string;
+  node: Record<string, any>;
+}
+
+function normalizeUrl(value: string): string {
+  if (!/^https?:\/\//i.test(value)) return value;
+  try {
+    return new URL(value).href;
+  } catch {
+    return value;
+  }
+}
+
+// A value reduced to a string that compares equal when two pages say the same thing
+function comparable(value: any): string | undefined {
+  if (Array.isArray(value)) {
+    const parts = value.map(comparable).filter((v): v is string => !!v).sort();
+    return parts.length ? parts.join(", ") : undefined;
+  }
+  if (typeof value === "string") return value.trim() ? normalizeUrl(value.trim()) : undefined;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (isNode(value)) return comparable(value["@id"] ?? value.url ?? value.contentUrl ?? value.name);
+  return undefined;
+}
+
+function siteType(node: Node): string | undefined {
+  const types = normalizeTypes(node["@type"], DEFAULT_CONTEXT).filter(isKnownType);
+  for (const type of types) {
+    const match = getAncestors(type).find((t) => SITE_TYPES.includes(t));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+function collect(value: any, page: string, seen: Set<object>, into: Occurrence[]) {
+  if (Array.isArray(value)) {
+    for (const v of value) collect(v, page, seen, into);
+    return;
+  }
+  if (!isNode(value) || seen.has(value)) return;
+  seen.add(value);
+  const type = siteType(value);
+  if (type) into.push({ page, type, node: value });
+  for (const [key, v] of Object.entries(value)) {
+    if (!key.startsWith("@")) collect(v, page, seen, into);
+  }
+}
+
+// Identities an occurrence can be matched on; any shared one makes two occurrences the same entity
+function identities(o: Occurrence): string[] {
+  const keys: string[] = [];
+  if (typeof o.node["@id"] === "string") keys.push(`${o.type}|id|${o.node["@id"]}`);
+  if (typeof o.node.url === "string" && o.node.url.trim()) keys.push(`${o.type}|url|${normalizeUrl(o.node.url.trim())}`);
+  if (typeof o.node.name === "string" && o.node.name.trim()) keys.push(`${o.type}|name|${o.node.name.trim().toLowerCase()}`);
+  return keys;
+}
+
+function groupOccurrences(occurrences: Occurrence[]): Occurrence[][] {
+  const parent = occurrences.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const owner = new Map<string, number>();
+  occurrences.forEach((o, i) => {
+    for (const key of identities(o)) {
+      const j = owner.get(key);
+      if (j === undefined) owner.set(key, i);
+      else parent[find(i)] = find(j);
+    }
+  });
+  const groups = new Map<number, Occurrence[]>();
+  occurrences.forEach((o, i) => {
+    if (!identities(o).length) return;
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), o]);
+  });
+  return Array.from(groups.values());
+}
+
+// Properties whose value differs between copies of one entity on different pages
+export function findConflicts(group: { page: string; node: Record<string, any> }[]): PropertyConflict[] {
+  const byProperty = new Map<string, Map<string, Set<string>>>();
+  for (const { page, node } of group) {
+    for (const [key, value] of Object.entries(node)) {
+      if (key.startsWith("@")) continue;
+      const v = comparable(value);
+      if (v === undefined) continue;
+      const values = byProperty.get(key) || new Map<string, Set<string>>();
+      values.set(v, (values.get(v) || new Set()).add(page));
+      byProperty.set(key, values);
+    }
+  }
+  const conflicts: PropertyConflict[] = [];
+  byProperty.forEach((values, property) => {
+    if (values.size < 2) return;
+    const list = Array.from(values.entries()).map(([value, pages]) => ({ value, pages: Array.from(pages) }));
+    conflicts.push({ property, values: list.sort((a, b) => b.pages.length - a.pages.length) });
+  });
+  return conflicts;
+}
+
+// Group site-wide entities across every crawled page, reporting disagreements and gaps
+export function analyzeSite(items: { url: string; entity: Record<string, any> }[], pages: string[]): SiteEntity[] {
+  const occurrences: Occurrence[] = [];
+  const seenByPage = new Map<string, Set<object>>();
+  for (const item of items) {
+    const seen = seenByPage.get(item.url) || new Set<object>();
+    seenByPage.set(item.url, seen);
+    collect(item.entity, item.url, seen, occurrences);
+  }
+
+  const allPages = Array.from(new Set(pages));
+  const entities: SiteEntity[] = [];
+  for (const group of groupOccurrences(occurrences)) {
+    const present = Array.from(new Set(group.map((o) => o.page)));
+    const first = group[0].node;
+    const sitewide = present.length >= 2 && present.length > allPages.length / 2;
+    entities.push({
+      type: group[0].type,
+      label: comparable(first.name) || comparable(first.url) || String(first["@id"]),
+      pages: present,
+      conflicts: findConflicts(group),
+      missingFrom: sitewide ? allPages.filter((p) => !present.includes(p)) : [],
+    });
+  }
+  return entities
+    .filter((e) => e.conflicts.length || e.missingFrom.length)
+    .sort((a, b) => b.conflicts.length - a.conflicts.length || b.pages.length - a.pages.length);
+}
@@ -0,0 +1,168 @@
+import { DEFAULT_CONTEXT, isForeignType, normalizeTypes, parseContext, type ContextInfo } from "./context";
+import { finding, schemaDocs, type Finding } from "./findings";
+import { joinPath } from "./path";
+import { checkEligibility, hasValue, isFeatureTerm, type Eligibility } from "./profiles";
+import { checkValue } from "./values";
+import {
+  acceptsType,
+  getAncestors,
+  getMovedProperty,
+  getProperty,
+  getSupersededBy,
+  getVocabularyLayer,
+  isKnownType,
+  isPropertyOf,
+} from "./vocabulary";
+
+// Fields worth having on types that no rich result profile covers, inherited by subtypes
+const RECOMMENDED_FIELDS: Record<string, string[]> = {
+  WebSite: ["name", "url"],
+  WebPage: ["name"],
+  Person: ["name"],
+  HowTo: ["name", "step"],
+  Place: ["name", "address"],
+  Service: ["name", "provider"],
+};
+
+export function getRecommendedFields(type: string): string[] | undefined {
+  const match = getAncestors(type).find((t) => RECOMMENDED_FIELDS[t]);
+  return match ? RECOMMENDED_FIELDS[match] : undefined;
+}
+
+// Missing fields across every applicable profile, each reported once at its strictest level
+function checkProfiles(types: string[], data: Record<string, any>, path: string, nested: boolean, findings: Finding[]) {
+  const eligibility = checkEligibility(data, types, nested);
+  const required = new Map<string, Eligibility[]>();
+  const recommended = new Map<string, Eligibility[]>();
+  for (const e of eligibility) {
+    for (const field of e.missingRequired) required.set(field, [...(required.get(field) || []), e]);
+    for (const field of e.missingRecommended) recommended.set(field, [...(recommended.get(field) || []), e]);
+  }
+  // Alternatives ("review or aggregateRating") are reported against the entity that lacks all of them
+  required.forEach((profiles, field) => {
+    const fieldPath = field.split(" or ").map((f) => joinPath(path, f)).join(" or ");
+    const message = `Missing required field: ${fieldPath} (${profiles.map((e) => e.name).join(", ")})`;
+    findings.push(finding("required-field", message, field.includes(" or ") ? path : joinPath(path, field), profiles[0].docs));
+  });
+  recommended.forEach((profiles, field) => {
+    if (required.has(field)) return;
+    const message = `Missing recommended field: ${joinPath(path, field)} (${profiles.map((e) => e.name).join(", ")})`;
+    findings.push(finding("recommended-field", message, joinPath(path, field), profiles[0].docs));
+  });
+
+  // Types no profile covers get generic suggestions. A nested entity whose parent's rich result stands
+  // in for its own (a Product under itemReviewed, an Organization as publisher) only gets a note for
+  // fields that every one of its own profiles requires, such as a Product's name.
+  const suggested = new Set(eligibility.length ? [] : types.flatMap((t) => getRecommendedFields(t) || []).filter((f) => !hasValue(data, f)));
+  const skipped = nested ? checkEligibility(data, types).filter((e) => !eligibility.some((applied) => applied.profile === e.profile)) : [];
+  skipped[0]?.missingRequired
+    .filter((field) => skipped.every((e) => e.missingRequired.includes(field)))
+    .forEach((field) => suggested.add(field));
+  suggested.forEach((field) => {
+    if (required.has(field) || recommended.has(field)) return;
+    const fieldPath = field.split(" or ").map((f) => joinPath(path, f)).join(" or ");
+    findings.push(finding("suggested-field", `Missing recommended field: ${fieldPath}`, field.includes(" or ") ? path : joinPath(path, field)));
+  });
+}
+
+// Pending terms are still under review; the rest live in an extension such as health-lifesci.
+// Pending terms that rich results read (gtin, ProductGroup, ...) are not worth a note.
+function layerNote(term: string): string | undefined {
+  const layer = getVocabularyLayer(term);
+  if (!layer || (layer === "pending" && isFeatureTerm(term))) return undefined;
+  return layer === "pending" ? "a pending Schema.org term that search engines may ignore" : `only defined in the ${layer} extension`;
+}
+
+// Keys that are not Schema.org terms: JSON-LD keywords, other vocabularies and action annotations
+function isVocabularyKey(key: string): boolean {
+  return !key.startsWith("@") && !key.includes(":") && !/-(input|output)$/.test(key);
+}
+
+function checkVocabulary(types: string[], data: Record<string, any>, path: string, context: ContextInfo, findings: Finding[]) {
+  for (const [key, value] of Object.entries(data)) {
+    if (!isVocabularyKey(key)) continue;
+    const keyPath = joinPath(path, key);
+    if (!getProperty(key)) {
+      const replacement = getSupersededBy(key);
+      if (replacement) findings.push(finding("deprecated-term", `Deprecated property: ${keyPath} (use ${replacement})`, keyPath, schemaDocs(replacement)));
+      else findings.push(finding("unknown-property", `Unknown property: ${keyPath}`, keyPath));
+      continue;
+    }
+    if (!types.some((t) => isPropertyOf(key, t))) {
+      const moved = getMovedProperty(key);
+      if (moved) findings.push(finding("deprecated-term", `Property ${keyPath} is no longer read here; use ${joinPath(path, moved)}`, keyPath, schemaDocs(key)));
+      else findings.push(finding("unexpected-property", `Property ${keyPath} is not expected on ${types.join(", ")}`, keyPath, schemaDocs(key)));
+      continue;
+    }
+    const note = layerNote(key);
+    if (note) findings.push(finding("pending-term", `Property ${keyPath} is ${note}`, keyPath, schemaDocs(key)));
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((v, i) => {
+      if (!v || typeof v !== "object") return;
+      const nested = normalizeTypes(v["@type"], parseContext(v["@context"], context)).filter(isKnownType);
+      if (!nested.length || nested.some((t) => acceptsType(key, t))) return;
+      const at = Array.isArray(value) ? joinPath(keyPath, i) : keyPath;
+      const message = `Unexpected type ${nested.join(", ")} for ${at} (expected ${getProperty(key)!.range.join(" or ")})`;
+      findings.push(finding("unexpected-type", message, at, schemaDocs(key)));
+    });
+  }
+}
+
+function validateNode(data: Record<string, any>, path: string, parentContext: ContextInfo, seen: Set<object>, findings: Finding[]) {
+  if (seen.has(data)) return;
+  seen.add(data);
+  const nested = path !== "";
+  const context = parseContext(data["@context"], parentContext);
+  const types = normalizeTypes(data["@type"], context);
+
+  if (!nested) {
+    if (!data["@type"]) findings.push(finding("missing-type", "Missing @type property", ""));
+    if (!data["@context"] && !data["@id"]) findings.push(finding("missing-context", "Missing @context", ""));
+  }
+
+  // Types from other vocabularies are left alone; unknown Schema.org names are reported
+  const schemaTypes = types.filter((t) => !isForeignType(t));
+  const where = nested ? ` at ${path}` : "";
+  for (const type of schemaTypes.filter((t) => !isKnownType(t))) {
+    const replacement = getSupersededBy(type);
+    if (replacement) findings.push(finding("deprecated-term", `Deprecated type: ${type}${where} (use ${replacement})`, path, schemaDocs(replacement)));
+    else findings.push(finding("unknown-type", `Unknown Schema.org type: ${type}${where}`, path));
+  }
+  const knownTypes = schemaTypes.filter(isKnownType);
+  for (const type of knownTypes) {
+    const note = layerNote(type);
+    if (note) findings.push(finding("pending-term", `Type ${type}${where} is ${note}`, path, schemaDocs(type)));
+  }
+  if (knownTypes.length) {
+    checkProfiles(knownTypes, data, path, nested, findings);
+    checkVocabulary(knownTypes, data, path, context, findings);
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (isVocabularyKey(key)) findings.push(...checkValue(key, value, joinPath(path, key)));
+  }
+
+  // Check for empty string values in important fields
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value === "string" && value.trim() === "" && key !== "@context") {
+      findings.push(finding("empty-value", `Empty value for: ${joinPath(path, key)}`, joinPath(path, key)));
+    }
+  }
+
+  // Walk nested entities, including those inside arrays
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith("@")) continue;
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((v, i) => {
+      if (!v || typeof v !== "object" || Array.isArray(v)) return;
+      validateNode(v, Array.isArray(value) ? joinPath(joinPath(path, key), i) : joinPath(path, key), context, seen, findings);
+    });
+  }
+}
+
+// Entities listed in `standalone` are validated on their own, so links to them are not walked again
+export function validateSchema(data: Record<string, any>, standalone: object[] = []): Finding[] {
+  const findings: Finding[] = [];
+  validateNode(data, "", DEFAULT_CONTEXT, new Set(standalone.filter((s) => s !== data)), findings);
+  return findings;
+}
@@ -0,0 +1,219 @@
+import { finding, schemaDocs, type Finding } from "./findings";
+import { getEnumerationMembers, getProperty, localName } from "./vocabulary";
+
+export type ValueFormat = "date" | "datetime" | "time" | "duration" | "url" | "number" | "integer" | "boolean" | "currency" | "enumeration";
+
+interface FormatCheck {
+  format: ValueFormat;
+  enumeration?: string;
+}
+
+// Properties whose vocabulary range allows free text, but which consumers parse strictly
+const FORMAT_OVERRIDES: Record<string, ValueFormat> = {
+  ratingValue: "number",
+  bestRating: "number",
+  worstRating: "number",
+  price: "number",
+  lowPrice: "number",
+  highPrice: "number",
+  priceCurrency: "currency",
+  salaryCurrency: "currency",
+  currency: "currency",
+};
+
+const FORMAT_LABELS: Record<ValueFormat, string> = {
+  date: "an ISO 8601 date (e.g. 2024-05-01)",
+  datetime: "an ISO 8601 date or datetime (e.g. 2024-05-01T09:00:00+00:00)",
+  time: "an ISO 8601 time (e.g. 09:00 or 09:00:00+01:00)",
+  duration: "an ISO 8601 duration (e.g. PT1H30M)",
+  url: "an absolute URL (e.g. https://example.com/page)",
+  number: "a number without currency symbols or thousands separators (e.g. 19.99)",
+  integer: "a whole number (e.g. 42)",
+  boolean: "true or false",
+  currency: "an ISO 4217 currency code (e.g. USD)",
+  enumeration: "a Schema.org enumeration value",
+};
+
+const ISO_4217 = new Set(
+  ("AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BOV BRL BSD BTN BWP BYN BZD " +
+    "CAD CDF CHE CHF CHW CLF CLP CNY COP COU CRC CUC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL " +
+    "GHS GIP GMD GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW KWD KYD " +
+    "KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN NIO NOK NPR " +
+    "NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SLL SOS SRD SSP STN " +
+    "SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD USN UYI UYU UYW UZS VED VES VND VUV WST XAF XAG " +
+    "XAU XBA XBB XBC XBD XCD XCG XDR XOF XPD XPF XPT XSU XTS XUA XXX YER ZAR ZMW ZWG ZWL").split(" ")
+);
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATETIME_RE = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DURATION_RE = /^P(?!$)(\d+(\.\d+)?Y)?(\d+(\.\d+)?M)?(\d+(\.\d+)?W)?(\d+(\.\d+)?D)?(T(?=\d)(\d+(\.\d+)?H)?(\d+(\.\d+)?M)?(\d+(\.\d+)?S)?)?$/;
+const NUMBER_RE = /^-?\d+(\.\d+)?$/;
+const INTEGER_RE = /^-?\d+$/;
+
+function isCalendarDate(year: string, month: string, day: string): boolean {
+  const d = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return d.getUTCFullYear() === Number(year) && d.getUTCMonth() === Number(month) - 1 && d.getUTCDate() === Number(day);
+}
+
+export function isIsoDate(value: string): boolean {
+  const m = DATE_RE.exec(value);
+  return !!m && isCalendarDate(m[1], m[2], m[3]);
+}
+
+export function isIsoDateTime(value: string): boolean {
+  const m = DATETIME_RE.exec(value);
+  return !!m && isCalendarDate(m[1], m[2], m[3]) && Number(m[4]) < 24 && Number(m[5]) < 60;
+}
+
+export function isIsoDuration(value: string): boolean {
+  return DURATION_RE.test(value);
+}
+
+export function isAbsoluteUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// The formats a string value may take, or none when the range allows free text
+function getFormatChecks(name: string): FormatCheck[] {
+  const override = FORMAT_OVERRIDES[name];
+  if (override) return [{ format: override }];
+  const prop = getProperty(name);
+  if (!prop || prop.range.includes("Text")) return [];
+  const checks: FormatCheck[] = [];
+  for (const range of prop.range) {
+    if (range === "Date") checks.push({ format: "date" });
+    else if (range === "DateTime") checks.push({ format: "datetime" });
+    else if (range === "Time") checks.push({ format: "time" });
+    else if (range === "Duration") checks.push({ format: "duration" });
+    else if (range === "URL") checks.push({ format: "url" });
+    else if (range === "Number" || range === "Float") checks.push({ format: "number" });
+    else if (range === "Integer") checks.push({ format: "integer" });
+    else if (range === "Boolean") checks.push({ format: "boolean" });
+    else if (getEnumerationMembers(range)) checks.push({ format: "enumeration", enumeration: range });
+  }
+  // A datetime range already accepts plain dates
+  if (checks.some((c) => c.format === "datetime")) return checks.filter((c) => c.format !== "date");
+  return checks;
+}
+
+function matches(check: FormatCheck, value: string | number | boolean): boolean {
+  if (typeof value === "boolean") return check.format === "boolean";
+  if (typeof value === "number") return check.format === "number" || (check.format === "integer" && Number.isInteger(value));
+  const v = value.trim();
+  switch (check.format) {
+    case "date":
+    case "datetime": return isIsoDate(v) || isIsoDateTime(v);
+    case "time": return TIME_RE.test(v);
+    case "duration": return isIsoDuration(v);
+    case "url": return isAbsoluteUrl(v);
+    case "number": return NUMBER_RE.test(v);
+    case "integer": return INTEGER_RE.test(v);
+    case "boolean": return ["true", "false"].includes(localName(v).toLowerCase());
+    case "currency": return ISO_4217.has(v);
+    case "enumeration": return getEnumerationMembers(check.enumeration!)!.includes(localName(v));
+  }
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { "$": "USD", "€": "EUR", "£": "GBP", "¥": "JPY", "₹": "INR" };
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// Rewrite a value into the format a check expects, when the intent is unambiguous
+function coerce(check: FormatCheck, value: string, base?: string): string | undefined {
+  const v = value.trim();
+  switch (check.format) {
+    case "date":
+    case "datetime": {
+      const slashed = /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/.exec(v);
+      if (slashed) return `${slashed[1]}-${pad(Number(slashed[2]))}-${pad(Number(slashed[3]))}`;
+      const parsed = new Date(v);
+      if (isNaN(parsed.getTime()) || !/\d{4}/.test(v)) return undefined;
+      const date = `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+      if (check.format !== "datetime" || !/\d{1,2}:\d{2}/.test(v)) return date;
+      // Keep the wall-clock time unless the value named its own offset
+      if (/(Z|[+-]\d{2}:?\d{2}|GMT|UTC)$/i.test(v)) return parsed.toISOString().replace(/\.\d{3}Z$/, "Z");
+      return `${date}T${pad(parsed.getHours())}:${pad(parsed.getMinutes())}:${pad(parsed.getSeconds())}`;
+    }
+    case "url":
+      if (v.startsWith("//")) return `https:${v}`;
+      if (/^www\./i.test(v)) return `https://${v}`;
+      if (!base || /^[a-z][a-z0-9+.-]*:/i.test(v)) return undefined;
+      try {
+        return new URL(v, base).href;
+      } catch {
+        return undefined;
+      }
+    case "number": {
+      const stripped = v.replace(/[^\d.,-]/g, "");
+      if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(stripped)) return stripped.replace(/,/g, "");
+      if (/^-?\d+,\d{1,2}$/.test(stripped)) return stripped.replace(",", ".");
+      return stripped || undefined;
+    }
+    case "integer": {
+      const m = /-?\d[\d,]*/.exec(v);
+      return m ? m[0].replace(/,/g, "") : undefined;
+    }
+    case "boolean":
+      return /^(yes|1)$/i.test(v) ? "true" : /^(no|0)$/i.test(v) ? "false" : undefined;
+    case "currency":
+      return CURRENCY_SYMBOLS[v] || v.toUpperCase();
+    case "enumeration": {
+      const key = localName(v).replace(/[\s_-]/g, "").toLowerCase();
+      const member = getEnumerationMembers(check.enumeration!)!.find((m) => m.toLowerCase() === key);
+      return member && `https://schema.org/${member}`;
+    }
+    case "duration": {
+      const hours = /(\d+)\s*(h|hrs?|hours?)\b/i.exec(v);
+      const minutes = /(\d+)\s*(m|mins?|minutes?)\b/i.exec(v);
+      if (!hours && !minutes) return undefined;
+      return `PT${hours ? `${hours[1]}H` : ""}${minutes ? `${minutes[1]}M` : ""}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// A corrected form of a string value that fails its format check, if one can be derived
+export function coerceValue(name: string, value: string, base?: string): string | undefined {
+  const checks = getFormatChecks(name);
+  if (!checks.length || !value.trim() || checks.some((c) => matches(c, value))) return undefined;
+  for (const check of checks) {
+    const fixed = coerce(check, value, base);
+    if (fixed !== undefined && fixed !== value && matches(check, fixed)) return fixed;
+  }
+  return undefined;
+}
+
+function describe(check: FormatCheck): string {
+  if (check.format === "enumeration") {
+    const members = getEnumerationMembers(check.enumeration!)!;
+    return `one of the ${check.enumeration} values (${members.slice(0, 4).map((m) => `https://schema.org/${m}`).join(", ")}${members.length > 4 ? ", ..." : ""})`;
+  }
+  return FORMAT_LABELS[check.format];
+}
+
+// Check the literal values of one property, returning a finding for each one in the wrong format
+export function checkValue(name: string, value: any, path = name): Finding[] {
+  const checks = getFormatChecks(name);
+  if (!checks.length) return [];
+  const findings: Finding[] = [];
+  const values = Array.isArray(value) ? value : [value];
+  values.forEach((v, i) => {
+    if (typeof v !== "string" && typeof v !== "number" && typeof v !== "boolean") return;
+    if (typeof v === "string" && v.trim() === "") return;
+    if (checks.some((c) => matches(c, v))) return;
+    const at = Array.isArray(value) ? `${path}[${i}]` : path;
+    const shown = String(v).length > 60 ? `${String(v).slice(0, 57)}...` : String(v);
+    const message = `Invalid value for ${at}: expected ${checks.map(describe).join(" or ")}, got "${shown}"`;
+    findings.push(finding("invalid-value", message, at, schemaDocs(name)));
+  });
+  return findings;
+}
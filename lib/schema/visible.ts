@@ -0,0 +1,169 @@
+import { DEFAULT_CONTEXT, normalizeTypes } from "./context";
+import { finding, type Finding } from "./findings";
+import { isNode, type Node } from "./node";
+import { joinPath } from "./path";
+import { isSubTypeOf, isKnownType } from "./vocabulary";
+
+export type DecimalSeparator = "." | ",";
+
+export interface VisibleContent {
+  text: string;
+  words: Set<string>;
+  // Every number in the text, read once with each decimal separator
+  numbers: Record<DecimalSeparator, Set<number>>;
+  // From the page's lang attribute, when its language settles it
+  decimal?: DecimalSeparator;
+}
+
+// Entities whose name usually lives in a logo or the <title>, not in body text
+const NAME_EXEMPT = ["Organization", "WebSite", "WebPage", "Person", "Brand", "ImageObject"];
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ndash: "-", mdash: "-", hellip: "..." };
+
+// Languages that write 4,5 for four and a half; English, Chinese, Japanese and the like use a point
+const DECIMAL_COMMA_LANGUAGES = [
+  "bg", "ca", "cs", "da", "de", "el", "es", "et", "fi", "fr", "hr", "hu", "id", "it", "lt", "lv", "nb", "nl",
+  "nn", "no", "pl", "pt", "ro", "ru", "sk", "sl", "sr", "sv", "tr", "uk", "vi",
+];
+const DECIMAL_POINT_LANGUAGES = ["en", "he", "hi", "ja", "ko", "ms", "th", "tl", "zh"];
+// Regions that write decimals differently from the rest of their language
+const DECIMAL_POINT_LOCALES = ["de-ch", "it-ch", "es-mx", "es-us", "es-pr"];
+
+// Currencies whose prices are written the same way in nearly every market that uses them
+const CURRENCY_DECIMALS: Record<string, DecimalSeparator> = {
+  USD: ".", GBP: ".", JPY: ".", CNY: ".", INR: ".", AUD: ".", NZD: ".", HKD: ".", SGD: ".", KRW: ".", ILS: ".", THB: ".", PHP: ".", MYR: ".", MXN: ".",
+  EUR: ",", BRL: ",", ARS: ",", CLP: ",", COP: ",", TRY: ",", RUB: ",", PLN: ",", CZK: ",", DKK: ",", NOK: ",", SEK: ",", HUF: ",", RON: ",", IDR: ",", VND: ",", UAH: ",",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+// Lowercased, entity-decoded text with typographic quotes and dashes folded to plain ones
+function normalizeText(text: string): string {
+  return decodeEntities(text.replace(/<[^>]+>/g, " "))
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function decimalForLang(lang: string): DecimalSeparator | undefined {
+  const tag = lang.toLowerCase().replace(/_/g, "-");
+  if (DECIMAL_POINT_LOCALES.some((l) => tag === l || tag.startsWith(`${l}-`))) return ".";
+  const language = tag.split("-")[0];
+  if (DECIMAL_COMMA_LANGUAGES.includes(language)) return ",";
+  if (DECIMAL_POINT_LANGUAGES.includes(language)) return ".";
+  return undefined;
+}
+
+// "1,299.00" and "1.299,00" both read as 1299 and "4,5" as 4.5 whatever the separator; only
+// "1.299" and "1,299" depend on it, reading as 1.299 when it is their separator and 1299 otherwise
+function parseNumber(raw: string, decimal: DecimalSeparator): number | undefined {
+  let s = raw.replace(/[.,]$/, "");
+  if (/^\d{1,3}(,\d{3})+\.\d+$/.test(s)) s = s.replace(/,/g, "");
+  else if (/^\d{1,3}(\.\d{3})+,\d+$/.test(s)) s = s.replace(/\./g, "").replace(",", ".");
+  else if (/^\d{1,3}([.,])\d{3}$/.test(s)) s = s[s.length - 4] === decimal ? s.replace(",", ".") : s.replace(/[.,]/, "");
+  else if (/^\d{1,3}([.,]\d{3}){2,}$/.test(s)) s = s.replace(/[.,]/g, "");
+  else s = s.replace(",", ".");
+  const n = Number(s);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function getVisibleContent(html: string): VisibleContent {
+  const text = normalizeText(
+    html
+      .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+  );
+  const numbers: VisibleContent["numbers"] = { ".": new Set(), ",": new Set() };
+  for (const m of text.match(/\d[\d.,]*/g) || []) {
+    for (const decimal of [".", ","] as const) {
+      const n = parseNumber(m, decimal);
+      if (n !== undefined) numbers[decimal].add(n);
+    }
+  }
+  const lang = /<html\b[^>]*\blang\s*=\s*["']?([a-z]{2,3}(?:[-_][a-z0-9]+)*)/i.exec(html)?.[1];
+  const decimal = lang ? decimalForLang(lang) : undefined;
+  return { text, words: new Set(text.split(/[^\p{L}\p{N}]+/u).filter(Boolean)), numbers, decimal };
+}
+
+function textAppears(value: string, page: VisibleContent): boolean {
+  const v = normalizeText(value);
+  if (!v) return true;
+  if (page.text.includes(v)) return true;
+  // Long passages are often reflowed or trimmed, so compare their words instead
+  const words = v.split(/[^\p{L}\p{N}]+/u).filter((w) => w.length > 3);
+  if (v.length < 120 || !words.length) return false;
+  return words.filter((w) => page.words.has(w)).length / words.length >= 0.8;
+}
+
+// Markup numbers use a decimal point; the page's own separator comes from its lang, then the
+// offer's currency, and when neither settles it either reading of the page text counts
+function numberAppears(value: any, page: VisibleContent, currency?: unknown): boolean {
+  const n = typeof value === "number" ? value : parseNumber(String(value).replace(/[^\d.,]/g, ""), ".");
+  if (n === undefined) return true;
+  const decimal = page.decimal ?? (typeof currency === "string" ? CURRENCY_DECIMALS[currency.trim().toUpperCase()] : undefined);
+  return decimal ? page.numbers[decimal].has(n) : page.numbers["."].has(n) || page.numbers[","].has(n);
+}
+
+function typesOf(node: Node): string[] {
+  return normalizeTypes(node["@type"], DEFAULT_CONTEXT).filter(isKnownType);
+}
+
+function is(types: string[], parent: string): boolean {
+  return types.some((t) => isSubTypeOf(t, parent));
+}
+
+function walk(node: Node, path: string, parentTypes: string[], page: VisibleContent, seen: Set<object>, findings: Finding[]) {
+  if (seen.has(node)) return;
+  seen.add(node);
+  const types = typesOf(node);
+  const report = (key: string, value: any) => {
+    const shown = String(value).length > 60 ? `${String(value).slice(0, 57)}...` : String(value);
+    const at = joinPath(path, key);
+    findings.push(finding("not-on-page", `Markup not reflected on page: ${at} "${shown}" does not appear in the visible content`, at));
+  };
+  const checkText = (key: string) => {
+    const value = node[key];
+    if (typeof value === "string" && !textAppears(value, page)) report(key, value);
+  };
+
+  checkText("headline");
+  const breadcrumb = is(types, "ListItem") && is(parentTypes, "BreadcrumbList");
+  if (breadcrumb || is(types, "Question") || (!is(types, "ListItem") && types.length && !NAME_EXEMPT.some((t) => is(types, t)))) {
+    checkText("name");
+  }
+  // Breadcrumb items often carry the name on the linked page instead
+  if (breadcrumb && node.name === undefined && isNode(node.item) && typeof node.item.name === "string" && !textAppears(node.item.name, page)) {
+    report("item.name", node.item.name);
+  }
+  if (is(types, "Answer")) checkText("text");
+  for (const key of ["price", "ratingValue"]) {
+    const value = node[key];
+    if ((typeof value === "string" || typeof value === "number") && !numberAppears(value, page, node.priceCurrency)) report(key, value);
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith("@")) continue;
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((v, i) => {
+      if (isNode(v)) walk(v, Array.isArray(value) ? joinPath(joinPath(path, key), i) : joinPath(path, key), types, page, seen, findings);
+    });
+  }
+}
+
+// Key values of an entity that cannot be found in the text a visitor sees
+export function checkVisibleContent(entity: Record<string, any>, page: VisibleContent, standalone: object[] = []): Finding[] {
+  const findings: Finding[] = [];
+  walk(entity, "", [], page, new Set(standalone.filter((s) => s !== entity)), findings);
+  return findings;
+}
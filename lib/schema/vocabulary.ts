@@ -0,0 +1,110 @@
+import vocabulary from "./schemaorg.json";
+
+// The full Schema.org release, generated by scripts/build-vocabulary.mjs; superseded terms are
+// kept apart in `deprecated` so they are reported as such rather than as unknown
+export const VOCABULARY_VERSION = vocabulary.version;
+
+export interface PropertyDefinition {
+  domain: string[];
+  range: string[];
+}
+
+const TYPES: Record<string, string[]> = vocabulary.types;
+const PROPERTIES: Record<string, PropertyDefinition> = vocabulary.properties;
+const ENUMERATIONS: Record<string, string[]> = vocabulary.enumerations;
+const DEPRECATED: Record<string, string> = vocabulary.deprecated;
+const MOVED: Record<string, string> = vocabulary.moved;
+const LAYERS: Record<string, string> = vocabulary.layers;
+
+const ancestorCache = new Map<string, string[]>();
+
+export function isKnownType(type: string): boolean {
+  return Object.prototype.hasOwnProperty.call(TYPES, type);
+}
+
+export function isDataType(type: string): boolean {
+  return isSubTypeOf(type, "DataType");
+}
+
+// The type itself followed by its superclasses, nearest first
+export function getAncestors(type: string): string[] {
+  const cached = ancestorCache.get(type);
+  if (cached) return cached;
+  const result: string[] = [];
+  const queue = [type];
+  while (queue.length) {
+    const current = queue.shift()!;
+    if (result.includes(current)) continue;
+    result.push(current);
+    queue.push(...(TYPES[current] || []));
+  }
+  ancestorCache.set(type, result);
+  return result;
+}
+
+export function isSubTypeOf(type: string, parent: string): boolean {
+  return getAncestors(type).includes(parent);
+}
+
+export function getProperty(name: string): PropertyDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(PROPERTIES, name) ? PROPERTIES[name] : undefined;
+}
+
+export function isPropertyOf(name: string, type: string): boolean {
+  const prop = getProperty(name);
+  if (!prop) return false;
+  const ancestors = getAncestors(type);
+  return prop.domain.some((d) => ancestors.includes(d));
+}
+
+export function acceptsType(name: string, type: string): boolean {
+  const prop = getProperty(name);
+  if (!prop) return false;
+  const ancestors = getAncestors(type);
+  return prop.range.some((r) => ancestors.includes(r));
+}
+
+export function getEnumerationMembers(type: string): string[] | undefined {
+  return Object.prototype.hasOwnProperty.call(ENUMERATIONS, type) ? ENUMERATIONS[type] : undefined;
+}
+
+// "https://schema.org/InStock", "schema:InStock" and "InStock" all name the same term
+export function localName(term: string): string {
+  return term.replace(/^https?:\/\/schema\.org\//, "").replace(/^schema:/, "");
+}
+
+const lowerCaseIndex = new Map<Record<string, unknown>, Map<string, string>>();
+
+function findIgnoringCase(table: Record<string, unknown>, name: string): string | undefined {
+  let index = lowerCaseIndex.get(table);
+  if (!index) {
+    index = new Map(Object.keys(table).map((k) => [k.toLowerCase(), k]));
+    lowerCaseIndex.set(table, index);
+  }
+  return index.get(name.toLowerCase());
+}
+
+// "product" -> "Product", for fixing names that only differ in case
+export function findType(name: string): string | undefined {
+  return findIgnoringCase(TYPES, name);
+}
+
+export function findProperty(name: string): string | undefined {
+  return findIgnoringCase(PROPERTIES, name);
+}
+
+// The term that replaces a deprecated type or property, e.g. "reviews" -> "review"
+export function getSupersededBy(term: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(DEPRECATED, term) ? DEPRECATED[term] : undefined;
+}
+
+// Properties that used to sit directly on an entity and now belong on a nested one,
+// e.g. "reviewCount" -> "aggregateRating.reviewCount"
+export function getMovedProperty(name: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(MOVED, name) ? MOVED[name] : undefined;
+}
+
+// "pending" or the extension a term comes from; undefined for core terms
+export function getVocabularyLayer(term: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(LAYERS, term) ? LAYERS[term] : undefined;
+}
@@ -1,6 +1,12 @@
+import type { CrawlPreset, CrawlSettings, CrawlStatus } from "./crawl";
+
 const DB_NAME = "spider-schema-validator";
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const PAGES_STORE = "pages";
+const RUNS_STORE = "runs";
+const PRESETS_STORE = "presets";
+// Last preset used for each domain
+const DOMAIN_PRESETS_STORE = "domainPresets";
 const MAX_STORAGE_BYTES = 50 * 1024 * 1024;
 
 export interface StoredPage {
@@ -13,6 +19,17 @@ export interface StoredPage {
   contentSize: number;
 }
 
+// One crawl, sitemap or list run with the settings needed to repeat it
+export interface CrawlRun {
+  id: string;
+  urls: string[];
+  domain: string;
+  settings: CrawlSettings;
+  status: CrawlStatus;
+  pageCount: number;
+  startedAt: number;
+}
+
 export interface DomainInfo {
   domain: string;
   pageCount: number;
@@ -30,13 +47,23 @@ function openDB(): Promise<IDBDatabase> {
         store.createIndex("domain", "domain", { unique: false });
         store.createIndex("timestamp", "timestamp", { unique: false });
       }
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        const store = db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+        store.createIndex("domain", "domain", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+        db.createObjectStore(PRESETS_STORE, { keyPath: "name" });
+      }
+      if (!db.objectStoreNames.contains(DOMAIN_PRESETS_STORE)) {
+        db.createObjectStore(DOMAIN_PRESETS_STORE, { keyPath: "domain" });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
-function getDomain(url: string): string {
+export function getDomain(url: string): string {
   try {
     return new URL(url.startsWith("http") ? url : `https://${url}`).hostname;
   } catch {
@@ -71,6 +98,86 @@ export async function savePages(
   });
 }
 
+export async function saveRun(run: CrawlRun): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RUNS_STORE, "readwrite");
+    tx.objectStore(RUNS_STORE).put(run);
+    tx.oncomplete = () => { db.close(); resolve(); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+}
+
+export async function getRuns(domain?: string): Promise<CrawlRun[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RUNS_STORE, "readonly");
+    const store = tx.objectStore(RUNS_STORE);
+    const request = domain ? store.index("domain").getAll(domain) : store.getAll();
+    request.onsuccess = () => {
+      db.close();
+      resolve((request.result as CrawlRun[]).sort((a, b) => b.startedAt - a.startedAt));
+    };
+    request.onerror = () => { db.close(); reject(request.error); };
+  });
+}
+
+export async function getPresets(): Promise<CrawlPreset[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PRESETS_STORE, "readonly");
+    const request = tx.objectStore(PRESETS_STORE).getAll();
+    request.onsuccess = () => {
+      db.close();
+      resolve((request.result as CrawlPreset[]).sort((a, b) => a.name.localeCompare(b.name)));
+    };
+    request.onerror = () => { db.close(); reject(request.error); };
+  });
+}
+
+// Presets are keyed by name, so saving under an existing name replaces it
+export async function savePresets(presets: CrawlPreset[]): Promise<void> {
+  if (!presets.length) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PRESETS_STORE, "readwrite");
+    const store = tx.objectStore(PRESETS_STORE);
+    for (const preset of presets) store.put(preset);
+    tx.oncomplete = () => { db.close(); resolve(); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+}
+
+export async function deletePreset(name: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PRESETS_STORE, "readwrite");
+    tx.objectStore(PRESETS_STORE).delete(name);
+    tx.oncomplete = () => { db.close(); resolve(); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+}
+
+export async function getDomainPreset(domain: string): Promise<string | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(DOMAIN_PRESETS_STORE, "readonly");
+    const request = tx.objectStore(DOMAIN_PRESETS_STORE).get(domain);
+    request.onsuccess = () => { db.close(); resolve(request.result?.preset); };
+    request.onerror = () => { db.close(); reject(request.error); };
+  });
+}
+
+export async function setDomainPreset(domain: string, preset: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(DOMAIN_PRESETS_STORE, "readwrite");
+    tx.objectStore(DOMAIN_PRESETS_STORE).put({ domain, preset });
+    tx.oncomplete = () => { db.close(); resolve(); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+}
+
 export async function getPagesByDomain(domain: string): Promise<StoredPage[]> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -106,17 +213,18 @@ export async function getSavedDomains(): Promise<DomainInfo[]> {
   });
 }
 
+// Removes the domain's pages and the runs that crawled it
 export async function clearDomain(domain: string): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(PAGES_STORE, "readwrite");
-    const store = tx.objectStore(PAGES_STORE);
-    const index = store.index("domain");
-    const request = index.openCursor(domain);
-    request.onsuccess = () => {
-      const cursor = request.result;
-      if (cursor) { cursor.delete(); cursor.continue(); }
-    };
+    const tx = db.transaction([PAGES_STORE, RUNS_STORE], "readwrite");
+    for (const name of [PAGES_STORE, RUNS_STORE]) {
+      const request = tx.objectStore(name).index("domain").openCursor(domain);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) { cursor.delete(); cursor.continue(); }
+      };
+    }
     tx.oncomplete = () => { db.close(); resolve(); };
     tx.onerror = () => { db.close(); reject(tx.error); };
   });
@@ -125,8 +233,9 @@ export async function clearDomain(domain: string): Promise<void> {
 export async function clearAll(): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(PAGES_STORE, "readwrite");
+    const tx = db.transaction([PAGES_STORE, RUNS_STORE], "readwrite");
     tx.objectStore(PAGES_STORE).clear();
+    tx.objectStore(RUNS_STORE).clear();
     tx.oncomplete = () => { db.close(); resolve(); };
     tx.onerror = () => { db.close(); reject(tx.error); };
   });
@@ -0,0 +1,70 @@
+import { pageKey } from "./url";
+
+export interface SitemapEntries {
+  // Page URLs from <url><loc>
+  urls: string[];
+  // Child sitemaps from a sitemap index
+  sitemaps: string[];
+}
+
+export type ListedStatus = "ok" | "failed" | "not-fetched" | "no-schema";
+
+export interface ListedUrl {
+  url: string;
+  status: ListedStatus;
+  // HTTP status or error message for failed pages
+  detail?: string;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim();
+}
+
+function unique(urls: string[]): string[] {
+  return Array.from(new Set(urls.filter((u) => /^https?:\/\//i.test(u))));
+}
+
+function locs(xml: string, parent: string): string[] {
+  const blocks = xml.match(new RegExp(`<(?:[\\w-]+:)?${parent}\\b[\\s\\S]*?</(?:[\\w-]+:)?${parent}>`, "gi")) || [];
+  return blocks
+    .map((block) => block.match(/<(?:[\w-]+:)?loc\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?loc>/i)?.[1])
+    .filter((loc): loc is string => !!loc)
+    .map(decodeXml);
+}
+
+export function parseSitemap(xml: string): SitemapEntries {
+  return { urls: unique(locs(xml, "url")), sitemaps: unique(locs(xml, "sitemap")) };
+}
+
+// URLs from pasted text or a CMS export: one per line, or separated by commas, spaces or tabs
+export function parseUrlList(text: string): string[] {
+  if (/<(?:[\w-]+:)?(urlset|sitemapindex)\b/i.test(text)) return parseSitemap(text).urls;
+  return unique(
+    text
+      .split(/[\s,;]+/)
+      .map((t) => t.replace(/^["']|["']$/g, "").trim())
+      .filter(Boolean)
+      .map((t) => (/^https?:\/\//i.test(t) ? t : /^[\w-]+(\.[\w-]+)+(\/|$)/.test(t) ? `https://${t}` : ""))
+  );
+}
+
+// How each listed URL fared: fetched with markup, fetched without, failed, or never returned
+export function checkListedUrls(listed: string[], pages: { url: string; status?: number; error?: string }[], withSchema: Set<string>): ListedUrl[] {
+  const byKey = new Map(pages.filter((p) => p?.url).map((p) => [pageKey(p.url), p]));
+  const schemaKeys = new Set(Array.from(withSchema).map(pageKey));
+  return listed.map((url) => {
+    const key = pageKey(url);
+    const page = byKey.get(key);
+    if (!page) return { url, status: "not-fetched" };
+    if (typeof page.status === "number" && page.status >= 400) return { url, status: "failed", detail: `HTTP ${page.status}` };
+    if (page.error) return { url, status: "failed", detail: String(page.error) };
+    return { url, status: schemaKeys.has(key) ? "ok" : "no-schema" };
+  });
+}
@@ -0,0 +1,26 @@
+// URL normalisation shared by the crawl, URL lists and the markup checks
+
+export function parseUrl(value: string, base: string): URL | undefined {
+  try {
+    return new URL(value, base);
+  } catch {
+    return undefined;
+  }
+}
+
+// www.example.com and example.com are the same site
+export function hostOf(url: URL): string {
+  return url.hostname.replace(/^www\./, "");
+}
+
+// Paths compared without trailing slashes, so /shoes and /shoes/ are the same level
+export function trimPath(path: string): string {
+  return path.replace(/\/+$/, "") || "/";
+}
+
+// Key for matching a URL against crawled pages, ignoring www, trailing slashes and fragments
+export function pageKey(url: string): string {
+  const parsed = parseUrl(url, url);
+  if (!parsed) return url;
+  return `${hostOf(parsed)}${trimPath(parsed.pathname)}${parsed.search}`;
+}
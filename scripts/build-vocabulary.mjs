@@ -0,0 +1,116 @@
+// Rebuilds lib/schema/schemaorg.json from an official Schema.org release:
+//   node scripts/build-vocabulary.mjs schemaorg-current-https.nt <release>
+// <release> is the release ID, e.g. 29.1, and the file should come from that release's folder,
+// https://schema.org/version/<release>/, so the bundle can be rebuilt byte for byte. The
+// `moved` table is not part of the release and is carried over from the current file.
+import { readFileSync, writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const [source, version] = process.argv.slice(2);
+if (!source || !/^\d+\.\d+$/.test(version || "")) {
+  console.error("Usage: node scripts/build-vocabulary.mjs <schemaorg-current-https.nt> <release, e.g. 29.1>");
+  process.exit(1);
+}
+
+const OUTPUT = fileURLToPath(new URL("../lib/schema/schemaorg.json", import.meta.url));
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const RDF_PROPERTY = "http://www.w3.org/1999/02/22-rdf-syntax-ns#Property";
+const RDFS_CLASS = "http://www.w3.org/2000/01/rdf-schema#Class";
+const SUBCLASS_OF = "http://www.w3.org/2000/01/rdf-schema#subClassOf";
+
+// Releases use http:// or https:// term IRIs depending on the file
+function term(iri) {
+  const match = /^https?:\/\/schema\.org\/([^/]+)$/.exec(iri);
+  return match ? match[1] : undefined;
+}
+
+function push(map, key, value) {
+  if (!map.has(key)) map.set(key, []);
+  if (!map.get(key).includes(value)) map.get(key).push(value);
+}
+
+// N-Triples or N-Quads; only IRI objects matter here, literals are skipped
+const triples = [];
+for (const line of readFileSync(source, "utf8").split("\n")) {
+  const match = /^<([^>]+)>\s+<([^>]+)>\s+<([^>]+)>/.exec(line);
+  if (match) triples.push(match.slice(1));
+}
+
+const rdfTypes = new Map();
+const parents = new Map();
+const domains = new Map();
+const ranges = new Map();
+const supersededBy = new Map();
+const layers = new Map();
+for (const [s, p, o] of triples) {
+  const subject = term(s);
+  if (!subject) continue;
+  if (p === RDF_TYPE) push(rdfTypes, subject, term(o) || o);
+  else if (p === SUBCLASS_OF && term(o)) push(parents, subject, term(o));
+  else if (term(p) === "domainIncludes" && term(o)) push(domains, subject, term(o));
+  else if (term(p) === "rangeIncludes" && term(o)) push(ranges, subject, term(o));
+  else if (term(p) === "supersededBy" && term(o) && !supersededBy.has(subject)) supersededBy.set(subject, term(o));
+  else if (term(p) === "isPartOf") {
+    const layer = /^https?:\/\/([\w-]+)\.schema\.org\/?$/.exec(o)?.[1];
+    if (layer) layers.set(subject, layer);
+  }
+}
+
+// The meta layer describes the vocabulary itself (domainIncludes, rangeIncludes, ...)
+const isTerm = (name) => layers.get(name) !== "meta";
+
+const classes = [...rdfTypes].filter(([name, t]) => isTerm(name) && (t.includes(RDFS_CLASS) || t.includes("DataType"))).map(([name]) => name);
+const types = {};
+for (const name of classes.sort()) {
+  if (supersededBy.has(name)) continue;
+  const own = parents.get(name) || [];
+  // Text, Number and the other data types are instances of DataType rather than subclasses
+  types[name] = own.length || name === "Thing" || name === "DataType" ? own : ["DataType"];
+}
+
+function isEnumeration(name) {
+  const seen = new Set();
+  const queue = [name];
+  while (queue.length) {
+    const current = queue.shift();
+    if (current === "Enumeration") return name !== "Enumeration";
+    if (seen.has(current)) continue;
+    seen.add(current);
+    queue.push(...(types[current] || []));
+  }
+  return false;
+}
+
+const properties = {};
+const propertyNames = [...rdfTypes].filter(([name, t]) => isTerm(name) && t.includes(RDF_PROPERTY)).map(([name]) => name);
+for (const name of propertyNames.sort()) {
+  if (supersededBy.has(name)) continue;
+  properties[name] = { domain: domains.get(name) || [], range: ranges.get(name) || [] };
+}
+
+// Members are the individuals typed with an enumeration, e.g. InStock for ItemAvailability
+const enumerations = {};
+for (const [name, t] of [...rdfTypes].sort(([a], [b]) => a.localeCompare(b))) {
+  if (types[name] || properties[name]) continue;
+  for (const type of t) {
+    if (!isEnumeration(type)) continue;
+    enumerations[type] = [...(enumerations[type] || []), name];
+  }
+}
+
+const deprecated = Object.fromEntries([...supersededBy].sort(([a], [b]) => a.localeCompare(b)));
+const layerTable = Object.fromEntries(
+  [...layers].filter(([name, layer]) => layer !== "meta" && (types[name] || properties[name])).sort(([a], [b]) => a.localeCompare(b))
+);
+const { moved } = JSON.parse(readFileSync(OUTPUT, "utf8"));
+
+// One entry per line keeps diffs between releases readable
+function table(entries) {
+  const lines = Object.entries(entries).map(([k, v]) => `    ${JSON.stringify(k)}: ${JSON.stringify(v).replace(/,"/g, ', "').replace(/":/g, '": ').replace(/\],"/g, '], "')}`);
+  return `{\n${lines.join(",\n")}\n  }`;
+}
+
+const sections = { types, properties, enumerations, deprecated, moved, layers: layerTable };
+const body = Object.entries(sections).map(([k, v]) => `  ${JSON.stringify(k)}: ${table(v)}`);
+writeFileSync(OUTPUT, `{\n  "version": ${JSON.stringify(version)},\n${body.join(",\n")}\n}\n`);
+console.log(`${Object.keys(types).length} types, ${Object.keys(properties).length} properties, ${Object.keys(enumerations).length} enumerations`);